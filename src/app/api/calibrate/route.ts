@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { calibrationService } from '../../../services/calibrationService';
+import { classificationPool } from '../../../services/classificationPool';
+import { isProfileName } from '../../../services/modelStore';
+import { getServerTensorFlowService } from '../../../services/serverTensorFlow';
+import { LUMINANCE_MODELS } from '../../../utils/constants';
+
+export async function GET() {
+  try {
+    const profiles = await calibrationService.listProfiles();
+    const serverTensorFlowService = await getServerTensorFlowService();
+
+    return NextResponse.json({
+      success: true,
+      activeProfile: serverTensorFlowService.getCalibration()?.name || null,
+      profiles
+    });
+  } catch (error) {
+    console.error('❌ Error listing calibration profiles:', error);
+    return NextResponse.json(
+      { error: 'Error listing calibration profiles' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const name = body.name || calibrationService.getActiveProfileName();
+    if (typeof name !== 'string' || !isProfileName(name)) {
+      return NextResponse.json(
+        { error: `Invalid calibration profile name: "${name}"` },
+        { status: 400 }
+      );
+    }
+    const activate: boolean = body.activate !== false;
+    const luminance = LUMINANCE_MODELS.find(model => model.id === (body.luminance ?? 'mean'))?.id;
+    if (!luminance) {
+      return NextResponse.json(
+        { error: `Unknown luminance: ${body.luminance}` },
+        { status: 400 }
+      );
+    }
+
+    console.log(`🎯 Calibrating profile "${name}" (${luminance} luminance) against annotated dataset...`);
+
+    const profile = await calibrationService.calibrate(name, luminance);
+    const version = await calibrationService.saveProfile(profile);
+
+    // Apply to the running classifier (the next cold start loads the latest CALIBRATION_PROFILE version)
+    if (activate) {
+      const serverTensorFlowService = await getServerTensorFlowService();
+      serverTensorFlowService.setCalibration(profile);
+      await classificationPool.syncConfiguration();
+    }
+
+    return NextResponse.json({ success: true, activated: activate, version, profile });
+  } catch (error) {
+    console.error('❌ Error calibrating classifier:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Error calibrating classifier' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { evaluationService } from '../../../services/evaluationService';
+import { getServerTensorFlowService } from '../../../services/serverTensorFlow';
+import { ClassificationOptions } from '../../../services/tensorflowService';
+import { InvalidClassificationOptionsError, parseClassificationOptions } from '../../../utils/classificationOptions';
+
+export async function GET(request: NextRequest) {
+  try {
+    let classificationOptions: ClassificationOptions;
+    try {
+      classificationOptions = parseClassificationOptions(request.nextUrl.searchParams);
+    } catch (error) {
+      if (error instanceof InvalidClassificationOptionsError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    console.log('📏 Evaluating classifier against annotated dataset...', classificationOptions);
+
+    const serverTensorFlowService = await getServerTensorFlowService();
+    const report = await evaluationService.evaluate(serverTensorFlowService, classificationOptions);
+
+    console.log('📏 Evaluation completed:', {
+      accuracy: report.accuracy.toFixed(4),
+      meanIoU: report.meanIoU.toFixed(4),
+      lightPercentageError: report.lightPercentageError.mean.toFixed(2)
+    });
+
+    return NextResponse.json({ success: true, ...report });
+  } catch (error) {
+    console.error('❌ Error evaluating classifier:', error);
+    return NextResponse.json(
+      { error: 'Error evaluating classifier' },
+      { status: 500 }
+    );
+  }
+}
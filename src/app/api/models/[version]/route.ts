@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fileModelStore } from '../../../../services/fileModelStore';
+import { isProfileName, isVersionId, joinWeightData } from '../../../../services/modelStore';
+
+/**
+ * Download a stored version: the MLP artifacts (weights as base64),
+ * or a calibration profile with ?profile=<name>
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ version: string }> }) {
+  try {
+    const { version } = await params;
+    if (!isVersionId(version)) {
+      return NextResponse.json(
+        { error: `Invalid model version: "${version}"` },
+        { status: 400 }
+      );
+    }
+
+    const profileName = request.nextUrl.searchParams.get('profile');
+    if (profileName) {
+      if (!isProfileName(profileName)) {
+        return NextResponse.json(
+          { error: `Invalid calibration profile name: "${profileName}"` },
+          { status: 400 }
+        );
+      }
+      const profile = await fileModelStore.loadCalibration(profileName, version);
+      if (!profile) {
+        return NextResponse.json(
+          { error: `Calibration profile "${profileName}" version ${version} not found` },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({ success: true, profile });
+    }
+
+    const stored = await fileModelStore.loadModel(version);
+    if (!stored) {
+      return NextResponse.json(
+        { error: `Model version ${version} not found` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      version: stored.version,
+      modelTopology: stored.artifacts.modelTopology,
+      weightSpecs: stored.artifacts.weightSpecs,
+      weightData: Buffer.from(joinWeightData(stored.artifacts.weightData)).toString('base64')
+    });
+  } catch (error) {
+    console.error('❌ Error reading stored model:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Error reading stored model' },
+      { status: 500 }
+    );
+  }
+}
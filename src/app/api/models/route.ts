@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { fileModelStore } from '../../../services/fileModelStore';
+import { getServerTensorFlowService } from '../../../services/serverTensorFlow';
+
+export async function GET() {
+  try {
+    const [models, calibrations] = await Promise.all([
+      fileModelStore.listVersions('mlp'),
+      fileModelStore.listVersions('calibration')
+    ]);
+    const serverTensorFlowService = await getServerTensorFlowService();
+    const status = serverTensorFlowService.getStatus();
+
+    return NextResponse.json({
+      success: true,
+      models,
+      calibrations,
+      active: {
+        model: status.modelVersion?.id || null,
+        calibration: status.calibrationVersion,
+        calibrationProfile: serverTensorFlowService.getCalibration()?.name || null
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error listing stored models:', error);
+    return NextResponse.json(
+      { error: 'Error listing stored models' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,12 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { classificationPool, ClassificationQueueFullError } from '../../../services/classificationPool';
+import { resolveClassifierName } from '../../../services/classifiers';
 import { googleSheetsService } from '../../../services/googleSheetsService';
-import { TensorFlowService } from '../../../services/tensorflowService';
-import { createCanvas, loadImage } from 'canvas';
+import { ImageTooLargeError } from '../../../services/serverImageService';
+import { getServerTensorFlowService } from '../../../services/serverTensorFlow';
+import { ClassificationOptions, PixelClassificationResult } from '../../../services/tensorflowService';
+import { InvalidClassificationOptionsError, parseClassificationOptions } from '../../../utils/classificationOptions';
 import { parseFilename } from '../../../utils/filenameParser';
-import { extractDateTimeFromImageServer } from '../../../utils/exif-server';
-
-// Singleton instance for server-side TensorFlow
-let serverTensorFlowService: TensorFlowService | null = null;
+import { DateTimeInfo, extractDateTimeFromImageServer } from '../../../utils/exif-server';
+import { computePhotoSolarPosition, normalizeLightPercentage, parseUtcOffset } from '../../../utils/solarPosition';
 
 // Configure body size limit for this route
 export const config = {
@@ -29,6 +31,13 @@ export async function POST(request: NextRequest) {
     const numero_planta = formData.get('numero_planta') as string;
     const latitud = formData.get('latitud') ? parseFloat(formData.get('latitud') as string) : null;
     const longitud = formData.get('longitud') ? parseFloat(formData.get('longitud') as string) : null;
+    // EXIF date/time read in the browser, for files whose EXIF was lost in client-side compression
+    const fechaExif = formData.get('fecha_exif');
+    const horaExif = formData.get('hora_exif');
+    const horaUtcExif = formData.get('hora_utc_exif');
+    const zonaHorariaExif = formData.get('zona_horaria_exif');
+    // UTC offset of the photos' local time declared by the user ("-04:00"), for photos without GPS time or EXIF offset
+    const zonaHoraria = formData.get('zona_horaria');
 
     if (!file) {
       return NextResponse.json(
@@ -37,33 +46,51 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    console.log('🚀 Processing image:', file.name);
+    let classificationOptions: ClassificationOptions;
+    try {
+      classificationOptions = parseClassificationOptions(formData);
+    } catch (error) {
+      if (error instanceof InvalidClassificationOptionsError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    const declaredUtcOffset = typeof zonaHoraria === 'string' && zonaHoraria ? parseUtcOffset(zonaHoraria) : undefined;
+    if (declaredUtcOffset === null) {
+      return NextResponse.json(
+        { error: `Invalid time zone: ${zonaHoraria} (expected a UTC offset such as -04:00)` },
+        { status: 400 }
+      );
+    }
 
-    // Initialize TensorFlow.js singleton if not already done
-    if (!serverTensorFlowService) {
-      console.log('🧠 Initializing server-side TensorFlow.js...');
-      serverTensorFlowService = new TensorFlowService();
-      await serverTensorFlowService.initialize();
-      await serverTensorFlowService.createModel();
-      await serverTensorFlowService.trainModel();
+    // The calibrated threshold only holds for the luminance it was fitted on
+    if (classificationOptions.luminance && (classificationOptions.mode ?? 'binary') === 'binary') {
+      const classifierName = resolveClassifierName(classificationOptions);
+      const calibratedLuminance = (await getServerTensorFlowService()).calibratedLuminance(classifierName);
+      if (calibratedLuminance && classificationOptions.luminance !== calibratedLuminance) {
+        return NextResponse.json(
+          { error: `The ${classifierName} threshold was calibrated on the ${calibratedLuminance} luminance; use the adaptive classifier for ${classificationOptions.luminance}` },
+          { status: 400 }
+        );
+      }
     }
 
-    // Process image with TensorFlow.js using Node.js canvas
-    const imageBuffer = await file.arrayBuffer();
-    
-    // Load image using canvas (Node.js compatible)
-    const img = await loadImage(Buffer.from(imageBuffer));
-    
-    // Create canvas and get ImageData
-    const canvas = createCanvas(img.width, img.height);
-    const ctx = canvas.getContext('2d');
-    
-    ctx.drawImage(img, 0, 0);
-    const imageDataResult = ctx.getImageData(0, 0, canvas.width, canvas.height);
-
-    // Process with TensorFlow.js
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const tfResult = await serverTensorFlowService.classifyImagePixels(imageDataResult as any);
+    console.log('🚀 Processing image:', file.name);
+
+    // Decode and classify on a worker thread (whole image or tiled, under the memory limit)
+    let tfResult: PixelClassificationResult;
+    try {
+      tfResult = await classificationPool.classify(await file.arrayBuffer(), classificationOptions, formData.get('tiled') === 'true');
+    } catch (error) {
+      if (error instanceof ImageTooLargeError) {
+        return NextResponse.json({ error: error.message }, { status: 413 });
+      }
+      if (error instanceof ClassificationQueueFullError) {
+        return NextResponse.json({ error: error.message }, { status: 503, headers: { 'Retry-After': '5' } });
+      }
+      throw error;
+    }
 
     // Extract data from filename (if available)
     const filenameData = parseFilename(file.name);
@@ -71,9 +98,17 @@ export async function POST(request: NextRequest) {
     const finalNumeroPlanta = numero_planta || filenameData.planta || '';
 
     // Extract date/time from EXIF (if available)
-    let exifDateTime = null;
+    let exifDateTime: DateTimeInfo | null = null;
     try {
       exifDateTime = await extractDateTimeFromImageServer(file);
+      if (!exifDateTime && typeof fechaExif === 'string' && fechaExif && typeof horaExif === 'string' && horaExif) {
+        exifDateTime = {
+          date: fechaExif,
+          time: horaExif,
+          utc: typeof horaUtcExif === 'string' && !Number.isNaN(Date.parse(horaUtcExif)) ? horaUtcExif : undefined,
+          utcOffset: typeof zonaHorariaExif === 'string' ? parseUtcOffset(zonaHorariaExif) ?? undefined : undefined
+        };
+      }
       if (exifDateTime) {
         console.log(`📅 EXIF date extracted: ${exifDateTime.date} ${exifDateTime.time}`);
       } else {
@@ -83,6 +118,18 @@ export async function POST(request: NextRequest) {
       console.log('⚠️ Could not extract EXIF date/time:', error);
     }
 
+    // Sun position when the photo was taken (needs the GPS coordinates and the EXIF date/time)
+    const solarPosition = exifDateTime && latitud !== null && longitud !== null && !Number.isNaN(latitud) && !Number.isNaN(longitud)
+      ? computePhotoSolarPosition(exifDateTime, latitud, longitud, declaredUtcOffset)
+      : null;
+    if (solarPosition) {
+      console.log(`☀️ Sun at ${solarPosition.elevation.toFixed(1)}° elevation, ${solarPosition.azimuth.toFixed(1)}° azimuth`);
+    }
+    // Not for hemispherical photos: their light is the visible sky, not sunflecks
+    const normalizedLight = solarPosition && !classificationOptions.hemispherical
+      ? normalizeLightPercentage(tfResult.lightPercentage, solarPosition.elevation)
+      : null;
+
     // Create processing result
     const processingResult = {
       success: true,
@@ -92,6 +139,74 @@ export async function POST(request: NextRequest) {
       numero_planta: finalNumeroPlanta,
       porcentaje_luz: tfResult.lightPercentage,
       porcentaje_sombra: tfResult.shadowPercentage,
+      clasificador: tfResult.classifier,
+      modo: tfResult.mode,
+      porcentajes_clases: tfResult.classPercentages,
+      umbral: tfResult.threshold,
+      metodo_umbral: tfResult.thresholdMethod,
+      luminancia: tfResult.luminance,
+      histograma_brillo: {
+        caracteristica: tfResult.brightness.feature,
+        luminancia: tfResult.brightness.luminance,
+        conteos: tfResult.brightness.histogram,
+        media: tfResult.brightness.mean,
+        mediana: tfResult.brightness.median,
+        percentiles: tfResult.brightness.percentiles
+      },
+      balance_blancos: tfResult.whiteBalanceGains,
+      limpieza: tfResult.cleanup && {
+        porcentaje_cambiado: tfResult.cleanup.changedPercentage,
+        porcentaje_luz_antes: tfResult.cleanup.before.lightPercentage,
+        porcentaje_sombra_antes: tfResult.cleanup.before.shadowPercentage,
+        porcentajes_clases_antes: tfResult.cleanup.before.classPercentages
+      },
+      cuadricula_luz: tfResult.lightGrid && {
+        filas: tfResult.lightGrid.rows,
+        columnas: tfResult.lightGrid.columns,
+        celdas: tfResult.lightGrid.cells,
+        bandas_filas: tfResult.lightGrid.rowBands,
+        bandas_columnas: tfResult.lightGrid.columnBands
+      },
+      parches_luz: {
+        cantidad: tfResult.lightPatches.count,
+        tamano_medio: tfResult.lightPatches.meanSize,
+        mayor: tfResult.lightPatches.largest,
+        mayor_pixeles: tfResult.lightPatches.largestPixels,
+        indice_fragmentacion: tfResult.lightPatches.fragmentation,
+        distribucion: tfResult.lightPatches.sizeClasses.map(sizeClass => ({
+          tamano_maximo: sizeClass.maxSize,
+          cantidad: sizeClass.count,
+          porcentaje_luz: sizeClass.lightShare
+        }))
+      },
+      hemisferica: tfResult.hemispherical && {
+        centro_x: tfResult.hemispherical.circle.x,
+        centro_y: tfResult.hemispherical.circle.y,
+        radio: tfResult.hemispherical.circle.radius,
+        anillos: tfResult.hemispherical.rings.map(ring => ({
+          cenit_desde: ring.fromZenith,
+          cenit_hasta: ring.toZenith,
+          pixeles: ring.pixels,
+          fraccion_huecos: ring.gapFraction
+        })),
+        lai_efectivo: tfResult.hemispherical.effectiveLai
+      },
+      vegetacion: tfResult.vegetation && {
+        indice: tfResult.vegetation.index,
+        umbral: tfResult.vegetation.threshold,
+        porcentaje_follaje: tfResult.vegetation.foliagePercentage,
+        porcentajes_clases: tfResult.vegetation.classPercentages
+      },
+      imagen_vegetacion: tfResult.vegetationImageData,
+      porcentaje_ambiguo: tfResult.ambiguousPercentage,
+      imagen_confianza: tfResult.confidenceImageData,
+      porcentaje_excluido: tfResult.excludedPercentage,
+      exclusiones: tfResult.excludedBreakdown,
+      porcentaje_roi: tfResult.roiPercentage,
+      modelo_version: tfResult.modelVersion,
+      calibracion_version: tfResult.calibrationVersion,
+      hash_parametros: tfResult.paramsHash,
+      teselas: tfResult.tileCount > 1 ? tfResult.tileCount : undefined,
       fundo: fundo || 'Unknown',
       sector: sector || 'Unknown',
       lote: lote || 'Unknown',
@@ -100,7 +215,15 @@ export async function POST(request: NextRequest) {
       longitud: longitud || null,
       processed_image: tfResult.processedImageData,
       timestamp: new Date().toISOString(),
-      exifDateTime: exifDateTime
+      exifDateTime: exifDateTime,
+      posicion_solar: solarPosition ? {
+        elevacion: solarPosition.elevation,
+        azimut: solarPosition.azimuth,
+        hora_utc: solarPosition.utcTime,
+        fuente_hora: solarPosition.timeSource,
+        zona_horaria_estimada: solarPosition.estimatedTimeZone
+      } : undefined,
+      indice_luz_normalizado: normalizedLight ?? undefined
     };
 
     // Save to Google Sheets
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { classificationPool } from '../../../services/classificationPool';
+import { fileModelStore } from '../../../services/fileModelStore';
+import { getServerTensorFlowService } from '../../../services/serverTensorFlow';
+import { InsufficientSamplesError } from '../../../services/tensorflowService';
+import { DEFAULT_SAMPLES_PER_CLASS, trainingService } from '../../../services/trainingService';
+
+// Accepted ranges of the numeric training parameters
+const TRAINING_PARAMETER_RANGES = {
+  samplesPerClass: { min: 1, max: 1_000_000, integer: true },
+  epochs: { min: 1, max: 500, integer: true },
+  batchSize: { min: 1, max: 65536, integer: true },
+  validationSplit: { min: 0.01, max: 0.9, integer: false }
+};
+
+type TrainingParameter = keyof typeof TRAINING_PARAMETER_RANGES;
+
+/**
+ * Read the training parameters from the request body; missing ones stay undefined
+ * @returns error describing the first parameter out of range
+ */
+const parseTrainingParameters = (
+  body: Record<string, unknown>
+): { parameters: Partial<Record<TrainingParameter, number>>; error?: string } => {
+  const parameters: Partial<Record<TrainingParameter, number>> = {};
+  for (const name of Object.keys(TRAINING_PARAMETER_RANGES) as TrainingParameter[]) {
+    const range = TRAINING_PARAMETER_RANGES[name];
+    const value = body[name];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < range.min || value > range.max
+      || (range.integer && !Number.isInteger(value))) {
+      const kind = range.integer ? 'an integer' : 'a number';
+      return { parameters, error: `${name} must be ${kind} between ${range.min} and ${range.max}` };
+    }
+    parameters[name] = value;
+  }
+  return { parameters };
+};
+
+export async function GET() {
+  try {
+    const serverTensorFlowService = await getServerTensorFlowService();
+
+    return NextResponse.json({
+      success: true,
+      ...serverTensorFlowService.getStatus(),
+      workers: classificationPool.getStatus()
+    });
+  } catch (error) {
+    console.error('❌ Error reading model status:', error);
+    return NextResponse.json(
+      { error: 'Error reading model status' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { parameters, error } = parseTrainingParameters(body ?? {});
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+    const samplesPerClass = parameters.samplesPerClass ?? DEFAULT_SAMPLES_PER_CLASS;
+    const save: boolean = body.save !== false;
+
+    console.log(`🎓 Training MLP on annotated dataset (${samplesPerClass} samples per class)...`);
+
+    const samples = await trainingService.buildSamples(samplesPerClass);
+    const serverTensorFlowService = await getServerTensorFlowService();
+    const metrics = await serverTensorFlowService.trainModel(samples, {
+      epochs: parameters.epochs,
+      batchSize: parameters.batchSize,
+      validationSplit: parameters.validationSplit
+    });
+
+    if (!metrics) {
+      return NextResponse.json(
+        { error: 'Model is already training' },
+        { status: 409 }
+      );
+    }
+
+    // Store a new version so the next cold start loads it instead of retraining
+    const version = save ? await serverTensorFlowService.saveModel(fileModelStore) : null;
+
+    // Classification workers load the saved version; requests for an unsaved model are classified in this thread
+    await classificationPool.syncConfiguration();
+
+    return NextResponse.json({ success: true, metrics, version });
+  } catch (error) {
+    if (error instanceof InsufficientSamplesError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('❌ Error training model:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Error training model' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+'use client';
+
+import React from 'react';
+import { BrightnessHistogramSummary } from '../types';
+import { BINARY_CLASSES } from '../utils/constants';
+
+interface BrightnessHistogramChartProps {
+  histogram: BrightnessHistogramSummary;
+  threshold?: number; // Drawn as a vertical line; bins above it are painted as light, the rest as shadow
+}
+
+// Chart area in SVG units: one unit per bin horizontally
+const CHART_WIDTH = 256;
+const CHART_HEIGHT = 100;
+
+const rgb = (color: [number, number, number], alpha = 1) => `rgba(${color.join(',')},${alpha})`;
+
+const BrightnessHistogramChart: React.FC<BrightnessHistogramChartProps> = ({ histogram, threshold }) => {
+  const { conteos, media, mediana, percentiles } = histogram;
+  const maxCount = Math.max(1, ...conteos);
+  const [light, shadow] = BINARY_CLASSES;
+
+  // Bar of every non-empty bin, colored by the side of the threshold it falls on
+  const bars = conteos.map((count, value) => {
+    if (count === 0) return null;
+    const height = (count / maxCount) * CHART_HEIGHT;
+    const color = threshold === undefined ? [107, 114, 128] as [number, number, number] : value > threshold ? light.color : shadow.color;
+    return <rect key={value} x={value} y={CHART_HEIGHT - height} width={1} height={height} fill={rgb(color, 0.7)} />;
+  });
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT + 12}`}
+        preserveAspectRatio="none"
+        className="w-full h-40 bg-gray-50 dark:bg-dark-800 rounded"
+        role="img"
+        aria-label="Histograma de brillo"
+      >
+        {bars}
+        {/* 5-95 percentile band and median */}
+        <rect x={percentiles.p5} y={CHART_HEIGHT + 4} width={Math.max(1, percentiles.p95 - percentiles.p5)} height={2} fill="rgb(156,163,175)" />
+        <rect x={percentiles.p25} y={CHART_HEIGHT + 2} width={Math.max(1, percentiles.p75 - percentiles.p25)} height={6} fill="rgb(107,114,128)" />
+        <line x1={mediana + 0.5} x2={mediana + 0.5} y1={0} y2={CHART_HEIGHT + 10} stroke="rgb(55,65,81)" strokeWidth={0.8} strokeDasharray="2 2" />
+        {threshold !== undefined && (
+          <line x1={threshold + 0.5} x2={threshold + 0.5} y1={0} y2={CHART_HEIGHT + 10} stroke="rgb(220,38,38)" strokeWidth={1.5} />
+        )}
+      </svg>
+      <div className="flex justify-between text-xs text-gray-500 dark:text-dark-400 mt-1">
+        <span>0 (oscuro)</span>
+        <span>255 (claro)</span>
+      </div>
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600 dark:text-dark-400 mt-2">
+        {threshold !== undefined && <span><span className="text-red-600 dark:text-red-400">━</span> Umbral: {threshold}</span>}
+        <span>┆ Mediana: {mediana}</span>
+        <span>Media: {media.toFixed(1)}</span>
+        <span>P25–P75: {percentiles.p25}–{percentiles.p75}</span>
+        <span>P5–P95: {percentiles.p5}–{percentiles.p95}</span>
+      </div>
+    </div>
+  );
+};
+
+export default BrightnessHistogramChart;
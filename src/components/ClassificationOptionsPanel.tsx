@@ -0,0 +1,370 @@
+'use client';
+
+import React from 'react';
+import { classifierRegistry, DEFAULT_CLASSIFIER } from '../services/classifiers';
+import { ClassificationOptions } from '../services/tensorflowService';
+import { ClassificationMode, ExclusionClass, LuminanceModel, ThresholdMethod, VegetationIndex } from '../types';
+import { EXCLUSION_CLASSES, LUMINANCE_MODELS, THRESHOLD_METHODS, VEGETATION_INDICES } from '../utils/constants';
+import { MAX_CLEANUP_AREA, MAX_CLEANUP_RADIUS, MAX_GRID_SIZE, MAX_ZENITH_RINGS } from '../utils/classificationOptions';
+import { DEFAULT_MAX_ZENITH, DEFAULT_ZENITH_RINGS, HemisphericalOptions } from '../utils/hemispherical';
+import { CleanupOptions } from '../utils/morphology';
+
+// Morphological cleanup inputs (radii in pixels, areas in pixels²)
+const CLEANUP_FIELDS: { key: keyof CleanupOptions; label: string; max: number }[] = [
+  { key: 'opening', label: 'Apertura (radio)', max: MAX_CLEANUP_RADIUS },
+  { key: 'closing', label: 'Cierre (radio)', max: MAX_CLEANUP_RADIUS },
+  { key: 'minArea', label: 'Área mínima', max: MAX_CLEANUP_AREA },
+  { key: 'fillHoles', label: 'Rellenar huecos hasta', max: MAX_CLEANUP_AREA }
+];
+
+const hasAdaptiveThreshold = (methods: ThresholdMethod[]) => methods.some(method => method !== 'fixed');
+
+interface ClassificationOptionsPanelProps {
+  options: ClassificationOptions;
+  onChange: (options: ClassificationOptions) => void;
+  disabled?: boolean;
+}
+
+const ClassificationOptionsPanel: React.FC<ClassificationOptionsPanelProps> = ({ options, onChange, disabled = false }) => {
+  const classifier = classifierRegistry.get(options.classifier ?? DEFAULT_CLASSIFIER);
+  const mode = options.mode ?? 'binary';
+  const exclude = options.exclude ?? [];
+  const thresholdMethods = THRESHOLD_METHODS.filter(method => classifier.thresholdMethods.includes(method.id));
+  // Hemispherical photos always use the adaptive threshold in binary mode, without exclusions
+  const isHemispherical = !!options.hemispherical;
+  // Luminance only matters to the threshold classifiers in binary mode
+  // The calibrated (fixed) threshold always uses the luminance of its calibration profile
+  const usesLuminance = hasAdaptiveThreshold(classifier.thresholdMethods) && mode === 'binary' && !isHemispherical;
+
+  // Keep the mode and threshold method compatible with the selected classifier
+  const handleClassifierChange = (name: string) => {
+    const selected = classifierRegistry.get(name);
+    onChange({
+      ...options,
+      classifier: name,
+      mode: selected.modes.includes(mode) ? mode : selected.modes[0],
+      thresholdMethod: selected.thresholdMethods[0],
+      luminance: hasAdaptiveThreshold(selected.thresholdMethods) ? options.luminance : undefined
+    });
+  };
+
+  const handleExcludeToggle = (exclusionClass: ExclusionClass) => {
+    onChange({
+      ...options,
+      exclude: exclude.includes(exclusionClass)
+        ? exclude.filter(id => id !== exclusionClass)
+        : [...exclude, exclusionClass]
+    });
+  };
+
+  const handleCleanupChange = (key: keyof CleanupOptions, value: string) => {
+    const parsed = Number.parseInt(value, 10);
+    onChange({
+      ...options,
+      cleanup: { ...options.cleanup, [key]: Number.isNaN(parsed) ? 0 : Math.max(0, parsed) }
+    });
+  };
+
+  const handleGridChange = (key: 'rows' | 'columns', value: string) => {
+    const parsed = Number.parseInt(value, 10);
+    const grid = { rows: 1, columns: 1, ...options.grid, [key]: Number.isNaN(parsed) ? 1 : Math.min(MAX_GRID_SIZE, Math.max(1, parsed)) };
+    onChange({ ...options, grid: grid.rows * grid.columns > 1 ? grid : undefined });
+  };
+
+  const handleHemisphericalToggle = (checked: boolean) => {
+    onChange(checked
+      ? { ...options, hemispherical: {}, classifier: 'adaptive', mode: 'binary', thresholdMethod: 'otsu', luminance: undefined, exclude: [], vegetationIndex: undefined }
+      : { ...options, hemispherical: undefined });
+  };
+
+  const handleHemisphericalChange = (key: keyof HemisphericalOptions, value: string, min: number, max: number) => {
+    const parsed = Number.parseFloat(value);
+    onChange({
+      ...options,
+      hemispherical: { ...options.hemispherical, [key]: Number.isNaN(parsed) ? undefined : Math.min(max, Math.max(min, parsed)) }
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Foto hemisférica */}
+      <div>
+        <label className="inline-flex items-center space-x-2 text-sm text-gray-700 dark:text-dark-300">
+          <input
+            type="checkbox"
+            checked={isHemispherical}
+            onChange={(e) => handleHemisphericalToggle(e.target.checked)}
+            disabled={disabled}
+            className="rounded border-gray-300 dark:border-dark-600 text-primary-600 focus:ring-primary-500"
+          />
+          <span>Foto hemisférica (ojo de pez hacia el cielo): cielo vs. dosel, fracción de huecos por anillo y LAI efectivo</span>
+        </label>
+        {isHemispherical && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-2">
+            <label className="block text-xs text-gray-600 dark:text-dark-400">
+              Radio del círculo (fracción del lado corto)
+              <input
+                type="number"
+                min={0.05}
+                max={1}
+                step={0.01}
+                value={options.hemispherical?.radius ?? 0.5}
+                onChange={(e) => handleHemisphericalChange('radius', e.target.value, 0.05, 1)}
+                disabled={disabled}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 dark:border-dark-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 dark:bg-dark-800 dark:text-white disabled:opacity-50"
+              />
+            </label>
+            <label className="block text-xs text-gray-600 dark:text-dark-400">
+              Anillos cenitales
+              <input
+                type="number"
+                min={1}
+                max={MAX_ZENITH_RINGS}
+                step={1}
+                value={options.hemispherical?.rings ?? DEFAULT_ZENITH_RINGS}
+                onChange={(e) => handleHemisphericalChange('rings', e.target.value, 1, MAX_ZENITH_RINGS)}
+                disabled={disabled}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 dark:border-dark-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 dark:bg-dark-800 dark:text-white disabled:opacity-50"
+              />
+            </label>
+            <label className="block text-xs text-gray-600 dark:text-dark-400">
+              Ángulo cenital máximo (°)
+              <input
+                type="number"
+                min={5}
+                max={90}
+                step={1}
+                value={options.hemispherical?.maxZenith ?? DEFAULT_MAX_ZENITH}
+                onChange={(e) => handleHemisphericalChange('maxZenith', e.target.value, 5, 90)}
+                disabled={disabled}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 dark:border-dark-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 dark:bg-dark-800 dark:text-white disabled:opacity-50"
+              />
+            </label>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {/* Clasificador */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-dark-300 mb-2">
+            Clasificador
+          </label>
+          <select
+            value={classifier.name}
+            onChange={(e) => handleClassifierChange(e.target.value)}
+            disabled={disabled || isHemispherical}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-dark-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 dark:bg-dark-800 dark:text-white disabled:opacity-50"
+          >
+            {classifierRegistry.list().map((strategy) => (
+              <option key={strategy.name} value={strategy.name}>
+                {strategy.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Modo de clasificación */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-dark-300 mb-2">
+            Modo de clasificación
+          </label>
+          <select
+            value={mode}
+            onChange={(e) => onChange({ ...options, mode: e.target.value as ClassificationMode })}
+            disabled={disabled || isHemispherical}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-dark-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 dark:bg-dark-800 dark:text-white disabled:opacity-50"
+          >
+            <option value="binary">Luz / Sombra</option>
+            <option value="multiclass" disabled={!classifier.modes.includes('multiclass')}>5 clases (malla, suelo y tronco)</option>
+          </select>
+        </div>
+
+        {/* Umbral */}
+        <div>
+          <label className={`block text-sm font-medium mb-2 ${
+            thresholdMethods.length < 2 || mode !== 'binary'
+              ? 'text-gray-400 dark:text-dark-500'
+              : 'text-gray-700 dark:text-dark-300'
+          }`}>
+            Umbral
+          </label>
+          <select
+            value={options.thresholdMethod ?? thresholdMethods[0]?.id ?? ''}
+            onChange={(e) => onChange({ ...options, thresholdMethod: e.target.value as ThresholdMethod })}
+            disabled={disabled || thresholdMethods.length < 2 || mode !== 'binary'}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-dark-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 dark:bg-dark-800 dark:text-white disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {thresholdMethods.length === 0 && <option value="">Sin umbral</option>}
+            {thresholdMethods.map((method) => (
+              <option key={method.id} value={method.id}>
+                {method.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {/* Luminancia */}
+        <div>
+          <label className={`block text-sm font-medium mb-2 ${
+            usesLuminance ? 'text-gray-700 dark:text-dark-300' : 'text-gray-400 dark:text-dark-500'
+          }`}>
+            Luminancia
+          </label>
+          <select
+            value={usesLuminance ? options.luminance ?? 'mean' : ''}
+            onChange={(e) => onChange({ ...options, luminance: e.target.value as LuminanceModel })}
+            disabled={disabled || !usesLuminance}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-dark-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 dark:bg-dark-800 dark:text-white disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {!usesLuminance && (
+              <option value="">
+                {classifier.thresholdMethods.includes('fixed') && mode === 'binary' ? 'La de la calibración' : 'No aplica'}
+              </option>
+            )}
+            {LUMINANCE_MODELS.map((model) => (
+              <option key={model.id} value={model.id}>
+                {model.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Balance de blancos */}
+        <div className="md:col-span-2 flex items-end">
+          <label className="inline-flex items-center space-x-2 text-sm text-gray-700 dark:text-dark-300 pb-2">
+            <input
+              type="checkbox"
+              checked={!!options.whiteBalance}
+              onChange={(e) => onChange({ ...options, whiteBalance: e.target.checked })}
+              disabled={disabled}
+              className="rounded border-gray-300 dark:border-dark-600 text-primary-600 focus:ring-primary-500"
+            />
+            <span>Balance de blancos (mundo gris) para corregir la dominante de color de cada cámara</span>
+          </label>
+        </div>
+      </div>
+
+      {/* Limpieza morfológica */}
+      <div>
+        <span className="block text-sm font-medium text-gray-700 dark:text-dark-300 mb-2">
+          Limpieza morfológica (0 = desactivado)
+        </span>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {CLEANUP_FIELDS.map((field) => (
+            <label key={field.key} className="block text-xs text-gray-600 dark:text-dark-400">
+              {field.label}
+              <input
+                type="number"
+                min={0}
+                max={field.max}
+                step={1}
+                value={options.cleanup?.[field.key] ?? 0}
+                onChange={(e) => handleCleanupChange(field.key, e.target.value)}
+                disabled={disabled}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 dark:border-dark-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 dark:bg-dark-800 dark:text-white disabled:opacity-50"
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {/* Cuadrícula */}
+      <div>
+        <span className="block text-sm font-medium text-gray-700 dark:text-dark-300 mb-2">
+          Distribución espacial de la luz (1 × 1 = desactivado)
+        </span>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <label className="block text-xs text-gray-600 dark:text-dark-400">
+            Filas
+            <input
+              type="number"
+              min={1}
+              max={MAX_GRID_SIZE}
+              step={1}
+              value={options.grid?.rows ?? 1}
+              onChange={(e) => handleGridChange('rows', e.target.value)}
+              disabled={disabled}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 dark:border-dark-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 dark:bg-dark-800 dark:text-white disabled:opacity-50"
+            />
+          </label>
+          <label className="block text-xs text-gray-600 dark:text-dark-400">
+            Columnas
+            <input
+              type="number"
+              min={1}
+              max={MAX_GRID_SIZE}
+              step={1}
+              value={options.grid?.columns ?? 1}
+              onChange={(e) => handleGridChange('columns', e.target.value)}
+              disabled={disabled}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 dark:border-dark-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 dark:bg-dark-800 dark:text-white disabled:opacity-50"
+            />
+          </label>
+          <div className="md:col-span-2 flex items-end">
+            <label className="inline-flex items-center space-x-2 text-sm text-gray-700 dark:text-dark-300 pb-2">
+              <input
+                type="checkbox"
+                checked={!!options.grid?.bands}
+                onChange={(e) => options.grid && onChange({ ...options, grid: { ...options.grid, bands: e.target.checked } })}
+                disabled={disabled || !options.grid}
+                className="rounded border-gray-300 dark:border-dark-600 text-primary-600 focus:ring-primary-500"
+              />
+              <span>Incluir franjas por fila y por columna</span>
+            </label>
+          </div>
+        </div>
+      </div>
+
+      {/* Capa de vegetación */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-dark-300 mb-2">
+            Capa de vegetación
+          </label>
+          <select
+            value={options.vegetationIndex ?? ''}
+            onChange={(e) => onChange({ ...options, vegetationIndex: (e.target.value || undefined) as VegetationIndex | undefined })}
+            disabled={disabled || isHemispherical}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-dark-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 dark:bg-dark-800 dark:text-white disabled:opacity-50"
+          >
+            <option value="">Ninguna</option>
+            {VEGETATION_INDICES.map((index) => (
+              <option key={index.id} value={index.id}>
+                {index.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <p className="md:col-span-2 flex items-end text-xs text-gray-500 dark:text-dark-400 pb-2">
+          Separa la luz y la sombra en follaje y suelo con un índice de verdor: follaje al sol, follaje a la sombra, suelo al sol y suelo a la sombra. No cambia qué es luz y qué es sombra: de los clasificadores, solo la red neuronal (MLP) usa ExG y VARI; el heurístico, el adaptativo y k-means deciden igual con o sin capa.
+        </p>
+      </div>
+
+      {/* Exclusiones */}
+      <div>
+        <span className="block text-sm font-medium text-gray-700 dark:text-dark-300 mb-2">
+          Excluir del cálculo
+        </span>
+        <div className="flex flex-wrap gap-4">
+          {EXCLUSION_CLASSES.map((exclusionClass) => (
+            <label key={exclusionClass.id} className="inline-flex items-center space-x-2 text-sm text-gray-700 dark:text-dark-300">
+              <input
+                type="checkbox"
+                checked={exclude.includes(exclusionClass.id)}
+                onChange={() => handleExcludeToggle(exclusionClass.id)}
+                disabled={disabled || isHemispherical}
+                className="rounded border-gray-300 dark:border-dark-600 text-primary-600 focus:ring-primary-500"
+              />
+              <span>{exclusionClass.label}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ClassificationOptionsPanel;
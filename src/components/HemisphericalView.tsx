@@ -0,0 +1,53 @@
+'use client';
+
+import React from 'react';
+import { HemisphericalSummary } from '../types';
+
+interface HemisphericalViewProps {
+  analysis: HemisphericalSummary;
+}
+
+/**
+ * Gap fraction of every zenith ring and the effective LAI of a hemispherical photo
+ */
+const HemisphericalView: React.FC<HemisphericalViewProps> = ({ analysis }) => {
+  const { anillos, lai_efectivo } = analysis;
+
+  return (
+    <div>
+      <div className="text-sm mb-3">
+        <span className="text-xs text-gray-500 dark:text-dark-400">LAI efectivo </span>
+        <span className="font-medium text-gray-900 dark:text-white">{lai_efectivo === null ? '—' : lai_efectivo.toFixed(2)}</span>
+      </div>
+      <table className="w-full text-xs text-gray-900 dark:text-white">
+        <thead>
+          <tr className="text-gray-500 dark:text-dark-400">
+            <th className="text-left font-medium py-1">Ángulo cenital</th>
+            <th className="text-right font-medium py-1">Píxeles</th>
+            <th className="text-right font-medium py-1">Fracción de huecos</th>
+          </tr>
+        </thead>
+        <tbody>
+          {anillos.map((ring, index) => (
+            <tr key={index} className="border-t border-gray-200 dark:border-dark-700">
+              <td className="py-1">{ring.cenit_desde.toFixed(0)}°–{ring.cenit_hasta.toFixed(0)}°</td>
+              <td className="py-1 text-right">{ring.pixeles.toLocaleString()}</td>
+              <td className="py-1 text-right">
+                {ring.fraccion_huecos === null ? '—' : (
+                  <div className="flex items-center justify-end gap-2">
+                    <div className="w-24 h-2 bg-gray-200 dark:bg-dark-600 rounded">
+                      <div className="h-2 bg-sky-500 rounded" style={{ width: `${ring.fraccion_huecos * 100}%` }} />
+                    </div>
+                    {(ring.fraccion_huecos * 100).toFixed(1)}%
+                  </div>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default HemisphericalView;
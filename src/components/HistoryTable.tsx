@@ -129,7 +129,7 @@ const HistoryTable: React.FC<HistoryTableProps> = ({ onNotification }) => {
             <table className="min-w-full divide-y divide-gray-200 dark:divide-dark-600">
               <thead className="bg-gray-50 dark:bg-dark-700">
                 <tr>
-                  {Array.from({ length: 10 }).map((_, i) => (
+                  {Array.from({ length: 11 }).map((_, i) => (
                     <th key={i} className="px-6 py-3">
                       <div className="h-4 bg-gray-200 dark:bg-dark-600 rounded w-20"></div>
                     </th>
@@ -139,7 +139,7 @@ const HistoryTable: React.FC<HistoryTableProps> = ({ onNotification }) => {
               <tbody className="bg-white dark:bg-dark-800 divide-y divide-gray-200 dark:divide-dark-600">
                 {Array.from({ length: 5 }).map((_, i) => (
                   <tr key={i}>
-                    {Array.from({ length: 10 }).map((_, j) => (
+                    {Array.from({ length: 11 }).map((_, j) => (
                       <td key={j} className="px-6 py-4">
                         <div className="h-4 bg-gray-200 dark:bg-dark-600 rounded w-16"></div>
                       </td>
@@ -288,6 +288,12 @@ const HistoryTable: React.FC<HistoryTableProps> = ({ onNotification }) => {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-dark-300 uppercase tracking-wider">
                   Sombra %
                 </th>
+                <th
+                  className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-dark-300 uppercase tracking-wider"
+                  title="Luz % llevada a sol vertical según la elevación solar de la foto, comparable entre horas"
+                >
+                  Luz norm. %
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-dark-300 uppercase tracking-wider">
                   Fecha
                 </th>
@@ -299,7 +305,7 @@ const HistoryTable: React.FC<HistoryTableProps> = ({ onNotification }) => {
             <tbody className="bg-white dark:bg-dark-800 divide-y divide-gray-200 dark:divide-dark-700">
               {paginatedHistory.length === 0 ? (
                 <tr>
-                  <td colSpan={10} className="px-6 py-4 text-center text-gray-500 dark:text-dark-400">
+                  <td colSpan={11} className="px-6 py-4 text-center text-gray-500 dark:text-dark-400">
                     No se encontraron registros
                   </td>
                 </tr>
@@ -328,12 +334,27 @@ const HistoryTable: React.FC<HistoryTableProps> = ({ onNotification }) => {
                       <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-500/20 text-yellow-600 dark:text-yellow-400 border border-yellow-500/30">
                         {record.porcentaje_luz}%
                       </span>
+                      {record.lai_efectivo != null && (
+                        <div className="text-xs text-sky-600 dark:text-sky-400 mt-1" title="Foto hemisférica: la luz es el cielo visible">
+                          LAIe {record.lai_efectivo.toFixed(2)}
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-dark-200">
                       <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-200 dark:bg-dark-600 text-gray-700 dark:text-dark-300 border border-gray-300 dark:border-dark-500">
                         {record.porcentaje_sombra}%
                       </span>
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-dark-200">
+                      {record.indice_luz_normalizado != null ? (
+                        <span
+                          className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-amber-500/20 text-amber-700 dark:text-amber-300 border border-amber-500/30"
+                          title={record.elevacion_solar != null ? `Sol a ${record.elevacion_solar.toFixed(1)}° de elevación` : undefined}
+                        >
+                          {record.indice_luz_normalizado.toFixed(1)}%
+                        </span>
+                      ) : '-'}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-dark-200">
                       {formatDate(record.fecha_tomada)}
                     </td>
@@ -4,11 +4,17 @@ import React, { useState, useCallback } from 'react';
 import { useFieldData } from '../hooks/useFieldData';
 import { useImageUpload } from '../hooks/useImageUpload';
 import { apiService } from '../services/api';
-import { ProcessingResult } from '../types';
+import { ProcessingResult, RoiPolygon } from '../types';
+import { classifierRegistry, DEFAULT_CLASSIFIER } from '../services/classifiers';
+import { ClassificationOptions } from '../services/tensorflowService';
+import { AMBIGUOUS_WARNING_PERCENTAGE, SEGMENTATION_CLASSES } from '../utils/constants';
+import { appendClassificationOptions } from '../utils/classificationOptions';
 import { formatFileSize, formatCoordinates, compressImage, isFileSizeValid } from '../utils/helpers';
-import { Upload, X, Eye, Crop, MapPin, AlertCircle, Calendar } from 'lucide-react';
+import { Upload, X, Eye, Crop, MapPin, AlertCircle, Calendar, Pentagon } from 'lucide-react';
 import ImageViewModal from './ImageViewModal';
 import ImageCropModal from './ImageCropModal';
+import RoiDrawModal from './RoiDrawModal';
+import ClassificationOptionsPanel from './ClassificationOptionsPanel';
 
 interface ImageUploadFormProps {
   onUnsavedDataChange: (hasData: boolean) => void;
@@ -17,15 +23,17 @@ interface ImageUploadFormProps {
 
 const ImageUploadForm: React.FC<ImageUploadFormProps> = ({ onUnsavedDataChange, onNotification }) => {
   const { fieldData, loading: fieldLoading, getFundosByEmpresa, getSectoresByEmpresaAndFundo, getLotesByEmpresaFundoAndSector } = useFieldData();
-  const { images, addImages, removeImage, updateImageField, clearImages, replaceImage, hasImages } = useImageUpload();
+  const { images, addImages, removeImage, updateImageField, updateImageRoi, clearImages, replaceImage, hasImages } = useImageUpload();
   
   const [formData, setFormData] = useState({
     empresa: '',
     fundo: '',
     sector: '',
     lote: '',
+    zonaHoraria: '', // UTC offset of the photos' clock, e.g. "-04:00" (optional)
   });
   
+  const [classificationOptions, setClassificationOptions] = useState<ClassificationOptions>({ classifier: DEFAULT_CLASSIFIER, mode: 'binary', thresholdMethod: 'fixed', exclude: [] });
   const [processing, setProcessing] = useState(false);
   const [results, setResults] = useState<ProcessingResult[]>([]);
   const [hasProcessed, setHasProcessed] = useState(false);
@@ -40,6 +48,13 @@ const ImageUploadForm: React.FC<ImageUploadFormProps> = ({ onUnsavedDataChange,
     imageName: '',
     originalFile: new File([], '')
   });
+  const [roiModal, setRoiModal] = useState<{ isOpen: boolean; imageSrc: string; imageName: string; originalFile: File; roi: RoiPolygon[] }>({
+    isOpen: false,
+    imageSrc: '',
+    imageName: '',
+    originalFile: new File([], ''),
+    roi: []
+  });
 
   // Track unsaved data
   React.useEffect(() => {
@@ -135,6 +150,22 @@ const ImageUploadForm: React.FC<ImageUploadFormProps> = ({ onUnsavedDataChange,
         formDataToSend.append('lote', formData.lote);
         formDataToSend.append('hilera', imageFile.hilera || '');
         formDataToSend.append('numero_planta', imageFile.numero_planta || '');
+        // GPS and EXIF time read before compression (needed for the sun position)
+        if (imageFile.coordinates) {
+          formDataToSend.append('latitud', String(imageFile.coordinates.lat));
+          formDataToSend.append('longitud', String(imageFile.coordinates.lng));
+        }
+        if (imageFile.dateTime) {
+          formDataToSend.append('fecha_exif', imageFile.dateTime.date);
+          formDataToSend.append('hora_exif', imageFile.dateTime.time);
+          if (imageFile.dateTime.utc) formDataToSend.append('hora_utc_exif', imageFile.dateTime.utc);
+          if (imageFile.dateTime.utcOffset) formDataToSend.append('zona_horaria_exif', imageFile.dateTime.utcOffset);
+        }
+        if (formData.zonaHoraria.trim()) {
+          formDataToSend.append('zona_horaria', formData.zonaHoraria.trim());
+        }
+        // Hemispherical photos analyse the image circle, which replaces any drawn ROI
+        appendClassificationOptions(formDataToSend, { ...classificationOptions, roi: classificationOptions.hemispherical ? undefined : imageFile.roi });
 
         return apiService.processImage(formDataToSend);
       });
@@ -156,7 +187,7 @@ const ImageUploadForm: React.FC<ImageUploadFormProps> = ({ onUnsavedDataChange,
 
   const handleClearAll = () => {
     clearImages();
-    setFormData({ empresa: '', fundo: '', sector: '', lote: '' });
+    setFormData({ empresa: '', fundo: '', sector: '', lote: '', zonaHoraria: '' });
     setResults([]);
     setHasProcessed(false);
     
@@ -197,6 +228,24 @@ const ImageUploadForm: React.FC<ImageUploadFormProps> = ({ onUnsavedDataChange,
     }
   };
 
+  const handleDrawRoi = (imageFile: { preview: string; file: File; roi?: RoiPolygon[] }) => {
+    setRoiModal({
+      isOpen: true,
+      imageSrc: imageFile.preview,
+      imageName: imageFile.file.name,
+      originalFile: imageFile.file,
+      roi: imageFile.roi ?? []
+    });
+  };
+
+  const handleRoiSave = (roi: RoiPolygon[]) => {
+    updateImageRoi(roiModal.originalFile, roi);
+    onNotification(
+      roi.length > 0 ? `Región de interés guardada (${roi.length} ${roi.length === 1 ? 'polígono' : 'polígonos'})` : 'Región de interés eliminada',
+      'success'
+    );
+  };
+
   const handleUpdateImageField = (file: File, field: 'hilera' | 'numero_planta', value: string) => {
     updateImageField(file, field, value);
   };
@@ -341,6 +390,32 @@ const ImageUploadForm: React.FC<ImageUploadFormProps> = ({ onUnsavedDataChange,
             </select>
           </div>
         </div>
+
+        {/* Zona horaria */}
+        <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-dark-300 mb-2">
+              Zona horaria de las fotos (UTC)
+            </label>
+            <input
+              type="text"
+              value={formData.zonaHoraria}
+              onChange={(e) => handleFormChange('zonaHoraria', e.target.value)}
+              placeholder="-04:00"
+              className="w-full px-3 py-2 border border-gray-300 dark:border-dark-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 dark:bg-dark-800 dark:text-white"
+            />
+          </div>
+          <p className="md:col-span-2 flex items-end text-xs text-gray-500 dark:text-dark-400 pb-2">
+            Opcional. Se usa para la posición del sol cuando la foto no trae hora GPS ni zona horaria EXIF; sin ella se estima con la longitud, lo que puede errar en una o dos horas (p. ej. en Chile o con horario de verano).
+          </p>
+        </div>
+
+        <div className="mt-6 pt-4 border-t border-gray-200 dark:border-dark-700">
+          <ClassificationOptionsPanel
+            options={classificationOptions}
+            onChange={setClassificationOptions}
+          />
+        </div>
       </div>
 
       {/* Image Upload */}
@@ -418,6 +493,11 @@ const ImageUploadForm: React.FC<ImageUploadFormProps> = ({ onUnsavedDataChange,
                           Recortada
                         </span>
                       )}
+                      {imageFile.roi && (
+                        <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-purple-500 text-white">
+                          ROI
+                        </span>
+                      )}
                     </div>
                     <p className="text-xs text-gray-500 dark:text-dark-400">
                       {formatFileSize(imageFile.file.size)}
@@ -512,6 +592,14 @@ const ImageUploadForm: React.FC<ImageUploadFormProps> = ({ onUnsavedDataChange,
                       <Crop className="h-3 w-3 mr-1" />
                       Recortar
                     </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDrawRoi(imageFile)}
+                      className="flex items-center px-2 py-1 text-xs text-purple-600 hover:text-purple-800 dark:text-purple-400 dark:hover:text-purple-300"
+                    >
+                      <Pentagon className="h-3 w-3 mr-1" />
+                      ROI
+                    </button>
                     <button
                       type="button"
                       onClick={() => removeImage(imageFile.file)}
@@ -570,6 +658,20 @@ const ImageUploadForm: React.FC<ImageUploadFormProps> = ({ onUnsavedDataChange,
                         </h3>
                         <p className="text-sm text-gray-600 dark:text-dark-400">
                           Hilera: {result.hilera} | Planta: {result.numero_planta}
+                          {result.clasificador && ` | Clasificador: ${classifierRegistry.list().find(classifier => classifier.name === result.clasificador)?.label ?? result.clasificador}`}
+                          {result.umbral !== undefined && ` | Umbral: ${result.umbral}`}
+                          {!!result.porcentaje_excluido && ` | Excluido: ${result.porcentaje_excluido.toFixed(1)}%`}
+                          {result.porcentaje_ambiguo !== undefined && (
+                            <span className={result.porcentaje_ambiguo > AMBIGUOUS_WARNING_PERCENTAGE ? 'text-amber-600 dark:text-amber-400' : undefined}>
+                              {` | Ambiguo: ${result.porcentaje_ambiguo.toFixed(1)}%`}
+                            </span>
+                          )}
+                          {result.hemisferica && ` | Hemisférica: LAI efectivo ${result.hemisferica.lai_efectivo?.toFixed(2) ?? '—'}`}
+                          {result.parches_luz && ` | Parches de luz: ${result.parches_luz.cantidad} (mayor ${result.parches_luz.mayor.toFixed(1)}%, fragmentación ${result.parches_luz.indice_fragmentacion.toFixed(2)})`}
+                          {result.vegetacion && ` | Follaje: ${result.vegetacion.porcentaje_follaje.toFixed(1)}% (${result.vegetacion.porcentajes_clases.FOLLAJE_LUZ.toFixed(1)}% al sol)`}
+                          {result.porcentaje_roi !== undefined && ` | ROI: ${result.porcentaje_roi.toFixed(1)}% de la imagen`}
+                          {result.posicion_solar && ` | Sol: ${result.posicion_solar.elevacion.toFixed(1)}° de elevación, azimut ${result.posicion_solar.azimut.toFixed(0)}°`}
+                          {result.indice_luz_normalizado !== undefined && ` | Luz normalizada: ${result.indice_luz_normalizado.toFixed(1)}%`}
                         </p>
                       </div>
                       <div className="flex space-x-4">
@@ -580,6 +682,15 @@ const ImageUploadForm: React.FC<ImageUploadFormProps> = ({ onUnsavedDataChange,
                           Sombra: {result.porcentaje_sombra?.toFixed(1)}%
                         </span>
                       </div>
+                      {result.porcentajes_clases && (
+                        <div className="flex flex-wrap gap-x-3 text-xs text-gray-600 dark:text-dark-400">
+                          {SEGMENTATION_CLASSES.map((segmentationClass) => (
+                            <span key={segmentationClass.id}>
+                              {segmentationClass.label}: {result.porcentajes_clases?.[segmentationClass.id]?.toFixed(1)}%
+                            </span>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   </div>
                   <div className="flex space-x-2">
@@ -622,6 +733,15 @@ const ImageUploadForm: React.FC<ImageUploadFormProps> = ({ onUnsavedDataChange,
         imageSrc={cropModal.imageSrc}
         imageName={cropModal.imageName}
       />
+
+      <RoiDrawModal
+        isOpen={roiModal.isOpen}
+        onClose={() => setRoiModal(prev => ({ ...prev, isOpen: false }))}
+        onSave={handleRoiSave}
+        imageSrc={roiModal.imageSrc}
+        imageName={roiModal.imageName}
+        initialPolygons={roiModal.roi}
+      />
     </div>
   );
 };
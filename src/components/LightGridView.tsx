@@ -0,0 +1,62 @@
+'use client';
+
+import React from 'react';
+import { LightGridSummary } from '../types';
+
+interface LightGridViewProps {
+  grid: LightGridSummary;
+}
+
+// Cell background: amber, more opaque the more light the cell gets
+const cellStyle = (percentage: number | null): React.CSSProperties => ({
+  backgroundColor: percentage === null ? undefined : `rgba(245, 158, 11, ${0.1 + (percentage / 100) * 0.8})`
+});
+
+const formatPercentage = (percentage: number | null) => percentage === null ? '—' : `${percentage.toFixed(0)}%`;
+
+/**
+ * Light percentage per grid cell laid out like the photo, with the row bands on the right
+ * and the column bands at the bottom
+ */
+const LightGridView: React.FC<LightGridViewProps> = ({ grid }) => {
+  const { celdas, bandas_filas, bandas_columnas } = grid;
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full border-collapse text-xs text-gray-900 dark:text-white">
+        <tbody>
+          {celdas.map((row, rowIndex) => (
+            <tr key={rowIndex}>
+              {row.map((percentage, columnIndex) => (
+                <td
+                  key={columnIndex}
+                  className="border border-gray-200 dark:border-dark-700 text-center py-2"
+                  style={cellStyle(percentage)}
+                >
+                  {formatPercentage(percentage)}
+                </td>
+              ))}
+              {bandas_filas && (
+                <td className="border border-gray-300 dark:border-dark-600 text-center py-2 pl-2 font-medium bg-gray-50 dark:bg-dark-800">
+                  {formatPercentage(bandas_filas[rowIndex])}
+                </td>
+              )}
+            </tr>
+          ))}
+          {bandas_columnas && (
+            <tr>
+              {bandas_columnas.map((percentage, columnIndex) => (
+                <td key={columnIndex} className="border border-gray-300 dark:border-dark-600 text-center py-2 font-medium bg-gray-50 dark:bg-dark-800">
+                  {formatPercentage(percentage)}
+                </td>
+              ))}
+              {bandas_filas && <td className="bg-gray-50 dark:bg-dark-800" />}
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default LightGridView;
@@ -0,0 +1,73 @@
+'use client';
+
+import React from 'react';
+import { LightPatchesSummary } from '../types';
+
+interface LightPatchesViewProps {
+  patches: LightPatchesSummary;
+}
+
+// Size class label from its bounds (percentages of the counted pixels)
+const sizeClassLabel = (lowerBound: number | null, upperBound: number | null) => {
+  if (upperBound === null) return `≥ ${lowerBound}%`;
+  return lowerBound === null ? `< ${upperBound}%` : `${lowerBound}–${upperBound}%`;
+};
+
+/**
+ * Light patch statistics and the patch size distribution
+ */
+const LightPatchesView: React.FC<LightPatchesViewProps> = ({ patches }) => {
+  const { cantidad, tamano_medio, mayor, mayor_pixeles, indice_fragmentacion, distribucion } = patches;
+
+  return (
+    <div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm mb-3">
+        <div>
+          <div className="text-xs text-gray-500 dark:text-dark-400">Parches</div>
+          <div className="font-medium text-gray-900 dark:text-white">{cantidad}</div>
+        </div>
+        <div>
+          <div className="text-xs text-gray-500 dark:text-dark-400">Tamaño medio</div>
+          <div className="font-medium text-gray-900 dark:text-white">{tamano_medio.toFixed(3)}%</div>
+        </div>
+        <div>
+          <div className="text-xs text-gray-500 dark:text-dark-400">Mayor claro</div>
+          <div className="font-medium text-gray-900 dark:text-white">
+            {mayor.toFixed(1)}% <span className="text-xs text-gray-500 dark:text-dark-400">({mayor_pixeles.toLocaleString()} px)</span>
+          </div>
+        </div>
+        <div>
+          <div className="text-xs text-gray-500 dark:text-dark-400">Fragmentación</div>
+          <div className="font-medium text-gray-900 dark:text-white">{indice_fragmentacion.toFixed(2)}</div>
+        </div>
+      </div>
+      <table className="w-full text-xs text-gray-900 dark:text-white">
+        <thead>
+          <tr className="text-gray-500 dark:text-dark-400">
+            <th className="text-left font-medium py-1">Tamaño del parche</th>
+            <th className="text-right font-medium py-1">Parches</th>
+            <th className="text-right font-medium py-1">% de la luz</th>
+          </tr>
+        </thead>
+        <tbody>
+          {distribucion.map((sizeClass, index) => (
+            <tr key={index} className="border-t border-gray-200 dark:border-dark-700">
+              <td className="py-1">{sizeClassLabel(index > 0 ? distribucion[index - 1].tamano_maximo : null, sizeClass.tamano_maximo)}</td>
+              <td className="py-1 text-right">{sizeClass.cantidad}</td>
+              <td className="py-1 text-right">
+                <div className="flex items-center justify-end gap-2">
+                  <div className="w-24 h-2 bg-gray-200 dark:bg-dark-600 rounded">
+                    <div className="h-2 bg-amber-500 rounded" style={{ width: `${sizeClass.porcentaje_luz}%` }} />
+                  </div>
+                  {sizeClass.porcentaje_luz.toFixed(1)}%
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default LightPatchesView;
@@ -1,21 +1,44 @@
 'use client';
 
 import React, { useState } from 'react';
+import Image from 'next/image';
 import { useTensorFlow } from '../hooks/useTensorFlow';
 import { ProcessingResult } from '../types';
+import { classifierRegistry, DEFAULT_CLASSIFIER } from '../services/classifiers';
+import { ClassificationCancelledError } from '../services/browserClassificationService';
+import { ClassificationOptions, ClassificationProgress } from '../services/tensorflowService';
 import { formatFileSize } from '../utils/helpers';
+import { AMBIGUOUS_WARNING_PERCENTAGE, BINARY_CLASSES, EXCLUDED_COLOR, EXCLUSION_CLASSES, LUMINANCE_MODELS, SEGMENTATION_CLASSES, THRESHOLD_METHODS, VEGETATION_CLASSES, VEGETATION_INDICES } from '../utils/constants';
 import { Upload, Eye, ChevronLeft, ChevronRight } from 'lucide-react';
+import BrightnessHistogramChart from './BrightnessHistogramChart';
+import ClassificationOptionsPanel from './ClassificationOptionsPanel';
+import LightGridView from './LightGridView';
+import LightPatchesView from './LightPatchesView';
+import HemisphericalView from './HemisphericalView';
+
+// Progress bar text and fill (decoding 0-10%, tiles 10-90%, processed image 90-100%)
+const describeProgress = (progress: ClassificationProgress | null): { label: string; percentage: number } => {
+  if (!progress || progress.stage === 'decoding') {
+    return { label: 'Decodificando imagen...', percentage: progress ? 5 : 0 };
+  }
+  if (progress.stage === 'classifying') {
+    const tiles = progress.total > 1 ? ` (${progress.completed}/${progress.total} teselas)` : '';
+    return { label: `Clasificando píxeles${tiles}...`, percentage: 10 + (80 * progress.completed) / progress.total };
+  }
+  return { label: 'Generando imagen procesada...', percentage: 95 };
+};
 
 interface ModelTestFormProps {
   onNotification: (message: string, type: 'success' | 'error' | 'warning' | 'info') => void;
 }
 
 const ModelTestForm: React.FC<ModelTestFormProps> = ({ onNotification }) => {
-  const { isModelReady, isProcessing: tfProcessing, processImage } = useTensorFlow();
+  const { isModelReady, isProcessing: tfProcessing, progress, processImage, cancel } = useTensorFlow();
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [processing, setProcessing] = useState(false);
   const [result, setResult] = useState<ProcessingResult | null>(null);
   const [originalImageUrl, setOriginalImageUrl] = useState<string | null>(null);
+  const [classificationOptions, setClassificationOptions] = useState<ClassificationOptions>({ classifier: DEFAULT_CLASSIFIER, mode: 'binary', thresholdMethod: 'fixed', exclude: [] });
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -44,7 +67,7 @@ const ModelTestForm: React.FC<ModelTestFormProps> = ({ onNotification }) => {
 
     try {
       // Use TensorFlow.js for local processing
-      const tfResult = await processImage(selectedFile);
+      const tfResult = await processImage(selectedFile, { ...classificationOptions, confidenceImage: true });
       
       // Create a ProcessingResult compatible with the UI
       const result: ProcessingResult = {
@@ -55,6 +78,72 @@ const ModelTestForm: React.FC<ModelTestFormProps> = ({ onNotification }) => {
         porcentaje_luz: tfResult.lightPercentage,
         porcentaje_sombra: tfResult.shadowPercentage,
         processed_image: tfResult.processedImageData,
+        clasificador: tfResult.classifier,
+        modo: tfResult.mode,
+        porcentajes_clases: tfResult.classPercentages,
+        umbral: tfResult.threshold,
+        metodo_umbral: tfResult.thresholdMethod,
+        luminancia: tfResult.luminance,
+        histograma_brillo: {
+          caracteristica: tfResult.brightness.feature,
+          luminancia: tfResult.brightness.luminance,
+          conteos: tfResult.brightness.histogram,
+          media: tfResult.brightness.mean,
+          mediana: tfResult.brightness.median,
+          percentiles: tfResult.brightness.percentiles
+        },
+        balance_blancos: tfResult.whiteBalanceGains,
+        limpieza: tfResult.cleanup && {
+          porcentaje_cambiado: tfResult.cleanup.changedPercentage,
+          porcentaje_luz_antes: tfResult.cleanup.before.lightPercentage,
+          porcentaje_sombra_antes: tfResult.cleanup.before.shadowPercentage,
+          porcentajes_clases_antes: tfResult.cleanup.before.classPercentages
+        },
+        cuadricula_luz: tfResult.lightGrid && {
+          filas: tfResult.lightGrid.rows,
+          columnas: tfResult.lightGrid.columns,
+          celdas: tfResult.lightGrid.cells,
+          bandas_filas: tfResult.lightGrid.rowBands,
+          bandas_columnas: tfResult.lightGrid.columnBands
+        },
+        parches_luz: {
+          cantidad: tfResult.lightPatches.count,
+          tamano_medio: tfResult.lightPatches.meanSize,
+          mayor: tfResult.lightPatches.largest,
+          mayor_pixeles: tfResult.lightPatches.largestPixels,
+          indice_fragmentacion: tfResult.lightPatches.fragmentation,
+          distribucion: tfResult.lightPatches.sizeClasses.map(sizeClass => ({
+            tamano_maximo: sizeClass.maxSize,
+            cantidad: sizeClass.count,
+            porcentaje_luz: sizeClass.lightShare
+          }))
+        },
+        hemisferica: tfResult.hemispherical && {
+          centro_x: tfResult.hemispherical.circle.x,
+          centro_y: tfResult.hemispherical.circle.y,
+          radio: tfResult.hemispherical.circle.radius,
+          anillos: tfResult.hemispherical.rings.map(ring => ({
+            cenit_desde: ring.fromZenith,
+            cenit_hasta: ring.toZenith,
+            pixeles: ring.pixels,
+            fraccion_huecos: ring.gapFraction
+          })),
+          lai_efectivo: tfResult.hemispherical.effectiveLai
+        },
+        vegetacion: tfResult.vegetation && {
+          indice: tfResult.vegetation.index,
+          umbral: tfResult.vegetation.threshold,
+          porcentaje_follaje: tfResult.vegetation.foliagePercentage,
+          porcentajes_clases: tfResult.vegetation.classPercentages
+        },
+        imagen_vegetacion: tfResult.vegetationImageData,
+        porcentaje_ambiguo: tfResult.ambiguousPercentage,
+        imagen_confianza: tfResult.confidenceImageData,
+        porcentaje_excluido: tfResult.excludedPercentage,
+        exclusiones: tfResult.excludedBreakdown,
+        modelo_version: tfResult.modelVersion,
+        calibracion_version: tfResult.calibrationVersion,
+        hash_parametros: tfResult.paramsHash,
         hilera: '',
         numero_planta: '',
         latitud: undefined,
@@ -65,6 +154,10 @@ const ModelTestForm: React.FC<ModelTestFormProps> = ({ onNotification }) => {
       setResult(result);
       onNotification('Prueba del modelo completada exitosamente con TensorFlow.js', 'success');
     } catch (error) {
+      if (error instanceof ClassificationCancelledError) {
+        onNotification('Prueba del modelo cancelada', 'info');
+        return;
+      }
       console.error('Error testing model:', error);
       onNotification('Error al probar el modelo con TensorFlow.js', 'error');
     } finally {
@@ -94,6 +187,14 @@ const ModelTestForm: React.FC<ModelTestFormProps> = ({ onNotification }) => {
           Selecciona una imagen agrícola para probar el modelo de clasificación de píxeles (luz/sombra).
         </p>
 
+        {/* Classification Options */}
+        <div className="mb-6">
+          <ClassificationOptionsPanel
+            options={classificationOptions}
+            onChange={setClassificationOptions}
+          />
+        </div>
+
         {/* File Upload */}
         <div className="border-2 border-dashed border-gray-300 dark:border-dark-600 rounded-lg p-6 text-center">
           <input
@@ -145,6 +246,14 @@ const ModelTestForm: React.FC<ModelTestFormProps> = ({ onNotification }) => {
           {processing || tfProcessing ? 'Probando Modelo...' : 
            !isModelReady ? 'Inicializando TensorFlow...' : 'Probar Modelo con TensorFlow.js'}
         </button>
+        {(processing || tfProcessing) && (
+          <button
+            onClick={cancel}
+            className="px-6 py-3 border border-red-300 dark:border-red-700 text-red-700 dark:text-red-400 rounded-lg font-medium hover:bg-red-50 dark:hover:bg-red-900/20 transition-all duration-200"
+          >
+            Cancelar
+          </button>
+        )}
         <button
           onClick={handleClear}
           className="px-6 py-3 border border-gray-300 dark:border-dark-600 text-gray-700 dark:text-dark-300 rounded-lg font-medium hover:bg-gray-50 dark:hover:bg-dark-800 transition-all duration-200"
@@ -153,6 +262,21 @@ const ModelTestForm: React.FC<ModelTestFormProps> = ({ onNotification }) => {
         </button>
       </div>
 
+      {/* Progress */}
+      {(processing || tfProcessing) && (
+        <div className="bg-white dark:bg-dark-900 rounded-xl p-4 shadow-lg border border-gray-200 dark:border-dark-700">
+          <p className="text-sm text-gray-600 dark:text-dark-400 mb-2">
+            {describeProgress(progress).label}
+          </p>
+          <div className="w-full h-2 bg-gray-200 dark:bg-dark-700 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-primary-600 transition-all duration-200"
+              style={{ width: `${describeProgress(progress).percentage}%` }}
+            />
+          </div>
+        </div>
+      )}
+
       {/* Results */}
       {result && (
         <div className="bg-white dark:bg-dark-900 rounded-xl p-6 shadow-lg border border-gray-200 dark:border-dark-700 animate-slide-up">
@@ -173,6 +297,31 @@ const ModelTestForm: React.FC<ModelTestFormProps> = ({ onNotification }) => {
               <p className="text-sm text-gray-600 dark:text-dark-400">
                 <strong>Modelo:</strong> {result.fundo}
               </p>
+              {result.clasificador && (
+                <p className="text-sm text-gray-600 dark:text-dark-400">
+                  <strong>Clasificador:</strong> {classifierRegistry.list().find(classifier => classifier.name === result.clasificador)?.label ?? result.clasificador}
+                </p>
+              )}
+              {(result.modelo_version || result.calibracion_version) && (
+                <p className="text-sm text-gray-600 dark:text-dark-400">
+                  <strong>Versión:</strong> {result.modelo_version ? `MLP ${result.modelo_version}` : `calibración ${result.calibracion_version}`}
+                </p>
+              )}
+              {result.umbral !== undefined && (
+                <p className="text-sm text-gray-600 dark:text-dark-400">
+                  <strong>Umbral:</strong> {result.umbral} ({THRESHOLD_METHODS.find(method => method.id === result.metodo_umbral)?.label})
+                </p>
+              )}
+              {result.luminancia && (
+                <p className="text-sm text-gray-600 dark:text-dark-400">
+                  <strong>Luminancia:</strong> {LUMINANCE_MODELS.find(model => model.id === result.luminancia)?.label ?? result.luminancia}
+                </p>
+              )}
+              {result.balance_blancos && (
+                <p className="text-sm text-gray-600 dark:text-dark-400">
+                  <strong>Balance de blancos:</strong> R×{result.balance_blancos[0].toFixed(2)} G×{result.balance_blancos[1].toFixed(2)} B×{result.balance_blancos[2].toFixed(2)}
+                </p>
+              )}
             </div>
             <div>
               <h3 className="font-medium text-gray-900 dark:text-white mb-2">
@@ -191,9 +340,107 @@ const ModelTestForm: React.FC<ModelTestFormProps> = ({ onNotification }) => {
                     {result.porcentaje_sombra?.toFixed(1)}%
                   </span>
                 </div>
+                {result.porcentaje_ambiguo !== undefined && (
+                  <div className="flex justify-between">
+                    <span className="text-sm text-gray-600 dark:text-dark-400">Ambiguo:</span>
+                    <span className={`text-sm font-medium ${
+                      result.porcentaje_ambiguo > AMBIGUOUS_WARNING_PERCENTAGE
+                        ? 'text-amber-600 dark:text-amber-400'
+                        : 'text-gray-700 dark:text-dark-300'
+                    }`}>
+                      {result.porcentaje_ambiguo.toFixed(1)}%
+                    </span>
+                  </div>
+                )}
+                {!!result.porcentaje_excluido && (
+                  <div className="flex justify-between">
+                    <span className="text-sm text-gray-600 dark:text-dark-400">Excluido:</span>
+                    <span className="text-sm font-medium text-pink-600 dark:text-pink-400">
+                      {result.porcentaje_excluido.toFixed(1)}%
+                    </span>
+                  </div>
+                )}
+                {result.exclusiones && EXCLUSION_CLASSES.filter(exclusionClass => result.exclusiones?.[exclusionClass.id]).map((exclusionClass) => (
+                  <div key={exclusionClass.id} className="flex justify-between">
+                    <span className="text-xs text-gray-500 dark:text-dark-400">{exclusionClass.label}:</span>
+                    <span className="text-xs font-medium text-gray-700 dark:text-dark-300">
+                      {result.exclusiones?.[exclusionClass.id]?.toFixed(1)}%
+                    </span>
+                  </div>
+                ))}
+                {result.porcentajes_clases && SEGMENTATION_CLASSES.map((segmentationClass) => (
+                  <div key={segmentationClass.id} className="flex justify-between">
+                    <span className="text-xs text-gray-500 dark:text-dark-400">{segmentationClass.label}:</span>
+                    <span className="text-xs font-medium text-gray-700 dark:text-dark-300">
+                      {result.porcentajes_clases?.[segmentationClass.id]?.toFixed(1)}%
+                    </span>
+                  </div>
+                ))}
+                {result.limpieza && (
+                  <div className="pt-2 mt-2 border-t border-gray-200 dark:border-dark-700 space-y-1">
+                    <div className="flex justify-between">
+                      <span className="text-xs text-gray-500 dark:text-dark-400">Antes de la limpieza:</span>
+                      <span className="text-xs font-medium text-gray-700 dark:text-dark-300">
+                        {result.limpieza.porcentaje_luz_antes.toFixed(1)}% luz / {result.limpieza.porcentaje_sombra_antes.toFixed(1)}% sombra
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-xs text-gray-500 dark:text-dark-400">Píxeles corregidos:</span>
+                      <span className="text-xs font-medium text-gray-700 dark:text-dark-300">
+                        {result.limpieza.porcentaje_cambiado.toFixed(1)}%
+                      </span>
+                    </div>
+                  </div>
+                )}
               </div>
             </div>
           </div>
+          {result.cuadricula_luz && (
+            <div className="mt-6">
+              <h3 className="font-medium text-gray-900 dark:text-white mb-2">
+                Distribución espacial de la luz ({result.cuadricula_luz.filas} × {result.cuadricula_luz.columnas})
+              </h3>
+              <p className="text-xs text-gray-500 dark:text-dark-400 mb-3">
+                Porcentaje de luz de cada zona de la foto{result.cuadricula_luz.bandas_filas && '; la última columna y la última fila son las franjas horizontales y verticales'}.
+              </p>
+              <LightGridView grid={result.cuadricula_luz} />
+            </div>
+          )}
+          {result.hemisferica && (
+            <div className="mt-6">
+              <h3 className="font-medium text-gray-900 dark:text-white mb-2">
+                Foto hemisférica
+              </h3>
+              <p className="text-xs text-gray-500 dark:text-dark-400 mb-3">
+                Fracción de cielo visible por anillo cenital dentro del círculo de la imagen (lente equidistante); la luz de esta prueba es el cielo y la sombra el dosel.
+              </p>
+              <HemisphericalView analysis={result.hemisferica} />
+            </div>
+          )}
+          {result.parches_luz && (
+            <div className="mt-6">
+              <h3 className="font-medium text-gray-900 dark:text-white mb-2">
+                Parches de luz
+              </h3>
+              <p className="text-xs text-gray-500 dark:text-dark-400 mb-3">
+                Zonas de luz conectadas (claros y manchas de sol); tamaños en porcentaje del área analizada. La fragmentación va de 0 (toda la luz en un solo claro) a cerca de 1 (muchas manchas pequeñas).
+              </p>
+              <LightPatchesView patches={result.parches_luz} />
+            </div>
+          )}
+          {result.histograma_brillo && (
+            <div className="mt-6">
+              <h3 className="font-medium text-gray-900 dark:text-white mb-2">
+                Histograma de {result.histograma_brillo.caracteristica === 'brightness' ? 'brillo' : `canal ${result.histograma_brillo.caracteristica.toUpperCase()}`}
+              </h3>
+              <p className="text-xs text-gray-500 dark:text-dark-400 mb-3">
+                {result.umbral !== undefined
+                  ? 'Los píxeles a la derecha del umbral se cuentan como luz y los de la izquierda como sombra.'
+                  : 'Distribución del brillo de los píxeles analizados (este clasificador no usa un umbral de brillo).'}
+              </p>
+              <BrightnessHistogramChart histogram={result.histograma_brillo} threshold={result.umbral} />
+            </div>
+          )}
           {result.processed_image && originalImageUrl && (
             <div className="mt-6">
               <h3 className="font-medium text-gray-900 dark:text-white mb-4">
@@ -214,26 +461,76 @@ const ModelTestForm: React.FC<ModelTestFormProps> = ({ onNotification }) => {
                   🎨 Leyenda de Colores
                 </h4>
                 <div className="grid grid-cols-2 gap-3">
-                  <div className="flex items-center space-x-2">
-                    <div className="w-4 h-4 bg-gray-500 rounded border"></div>
-                    <span className="text-sm text-gray-700 dark:text-dark-300">Suelo Sombra</span>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <div className="w-4 h-4 bg-yellow-400 rounded border"></div>
-                    <span className="text-sm text-gray-700 dark:text-dark-300">Suelo Luz</span>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <div className="w-4 h-4 bg-green-600 rounded border"></div>
-                    <span className="text-sm text-gray-700 dark:text-dark-300">Malla Sombra</span>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <div className="w-4 h-4 bg-green-400 rounded border"></div>
-                    <span className="text-sm text-gray-700 dark:text-dark-300">Malla Luz</span>
-                  </div>
+                  {(result.modo === 'multiclass' ? SEGMENTATION_CLASSES : BINARY_CLASSES).map((legendClass) => (
+                    <div key={legendClass.label} className="flex items-center space-x-2">
+                      <div
+                        className="w-4 h-4 rounded border"
+                        style={{ backgroundColor: `rgb(${legendClass.color.join(',')})` }}
+                      ></div>
+                      <span className="text-sm text-gray-700 dark:text-dark-300">{legendClass.label}</span>
+                    </div>
+                  ))}
+                  {!!result.porcentaje_excluido && (
+                    <div className="flex items-center space-x-2">
+                      <div
+                        className="w-4 h-4 rounded border"
+                        style={{ backgroundColor: `rgb(${EXCLUDED_COLOR.join(',')})` }}
+                      ></div>
+                      <span className="text-sm text-gray-700 dark:text-dark-300">Excluido</span>
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
           )}
+          {result.imagen_confianza && originalImageUrl && (
+            <div className="mt-6">
+              <h3 className="font-medium text-gray-900 dark:text-white mb-2">
+                Confianza de la clasificación
+              </h3>
+              <p className="text-xs text-gray-500 dark:text-dark-400 mb-4">
+                Rojo: píxeles cercanos al límite de decisión (ambiguos). Verde: clasificación segura.
+                {result.porcentaje_ambiguo !== undefined && result.porcentaje_ambiguo > AMBIGUOUS_WARNING_PERCENTAGE &&
+                  ' El resultado depende de muchos píxeles ambiguos: conviene revisarlo.'}
+              </p>
+              <div className="relative">
+                <ImageComparisonSlider
+                  originalImage={originalImageUrl}
+                  processedImage={result.imagen_confianza}
+                />
+              </div>
+            </div>
+          )}
+          {result.vegetacion && result.imagen_vegetacion && originalImageUrl && (
+            <div className="mt-6">
+              <h3 className="font-medium text-gray-900 dark:text-white mb-2">
+                Follaje y suelo
+              </h3>
+              <p className="text-xs text-gray-500 dark:text-dark-400 mb-4">
+                {VEGETATION_INDICES.find(index => index.id === result.vegetacion?.indice)?.label}: follaje por encima de {result.vegetacion.umbral.toFixed(3)}.
+                Follaje: {result.vegetacion.porcentaje_follaje.toFixed(1)}% de los píxeles de luz y sombra.
+              </p>
+              <div className="relative mb-4">
+                <ImageComparisonSlider
+                  originalImage={originalImageUrl}
+                  processedImage={result.imagen_vegetacion}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                {VEGETATION_CLASSES.map((vegetationClass) => (
+                  <div key={vegetationClass.id} className="flex items-center space-x-2">
+                    <div
+                      className="w-4 h-4 rounded border"
+                      style={{ backgroundColor: `rgb(${vegetationClass.color.join(',')})` }}
+                    ></div>
+                    <span className="text-sm text-gray-700 dark:text-dark-300">
+                      {vegetationClass.label}: {result.vegetacion?.porcentajes_clases[vegetationClass.id].toFixed(1)}%
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -290,10 +587,13 @@ const ImageComparisonSlider: React.FC<ImageComparisonSliderProps> = ({
     >
       {/* Container for both images */}
       <div className="relative rounded-lg border border-gray-200 dark:border-dark-600 overflow-hidden">
-        {/* Original Image (Background) - Full size */}
-        <img
+        {/* Original Image (Background) - Full size; local data URLs, without the optimizer */}
+        <Image
           src={originalImage}
           alt="Original"
+          width={0}
+          height={0}
+          unoptimized
           className="w-full h-auto block"
           draggable={false}
         />
@@ -305,9 +605,12 @@ const ImageComparisonSlider: React.FC<ImageComparisonSliderProps> = ({
             clipPath: `inset(0 ${100 - sliderPosition}% 0 0)`
           }}
         >
-          <img
+          <Image
             src={processedImage}
             alt="Processed"
+            width={0}
+            height={0}
+            unoptimized
             className="w-full h-auto block"
             draggable={false}
           />
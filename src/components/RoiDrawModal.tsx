@@ -0,0 +1,224 @@
+'use client';
+
+import React, { useState, useRef, useEffect } from 'react';
+import Image from 'next/image';
+import { X, Check, Undo2, Trash2, Pentagon } from 'lucide-react';
+import { RoiPolygon } from '../types';
+
+interface RoiDrawModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (polygons: RoiPolygon[]) => void;
+  imageSrc: string;
+  imageName: string;
+  initialPolygons: RoiPolygon[];
+}
+
+// Distance (normalized) to the first vertex under which a click closes the polygon
+const CLOSE_DISTANCE = 0.02;
+
+const toSvgPoints = (points: RoiPolygon) => points.map(([x, y]) => `${x * 100},${y * 100}`).join(' ');
+
+const RoiDrawModal: React.FC<RoiDrawModalProps> = ({
+  isOpen,
+  onClose,
+  onSave,
+  imageSrc,
+  imageName,
+  initialPolygons
+}) => {
+  const [polygons, setPolygons] = useState<RoiPolygon[]>([]);
+  const [currentPoints, setCurrentPoints] = useState<RoiPolygon>([]);
+
+  const imgRef = useRef<HTMLImageElement>(null);
+
+  // Start from the image's saved ROI every time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setPolygons(initialPolygons);
+      setCurrentPoints([]);
+    }
+  }, [isOpen, initialPolygons]);
+
+  const closePolygon = () => {
+    if (currentPoints.length < 3) return;
+    setPolygons(prev => [...prev, currentPoints]);
+    setCurrentPoints([]);
+  };
+
+  const handleImageClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!imgRef.current) return;
+
+    const rect = imgRef.current.getBoundingClientRect();
+    const x = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    const y = Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height));
+
+    // Clicking next to the first vertex closes the polygon
+    if (currentPoints.length >= 3) {
+      const [firstX, firstY] = currentPoints[0];
+      if (Math.hypot(x - firstX, y - firstY) < CLOSE_DISTANCE) {
+        closePolygon();
+        return;
+      }
+    }
+
+    setCurrentPoints(prev => [...prev, [x, y]]);
+  };
+
+  const handleUndo = () => {
+    if (currentPoints.length > 0) {
+      setCurrentPoints(prev => prev.slice(0, -1));
+    } else {
+      setPolygons(prev => prev.slice(0, -1));
+    }
+  };
+
+  const handleClear = () => {
+    setPolygons([]);
+    setCurrentPoints([]);
+  };
+
+  const handleSave = () => {
+    // An unfinished polygon with enough vertices is closed automatically
+    const finalPolygons = currentPoints.length >= 3 ? [...polygons, currentPoints] : polygons;
+    onSave(finalPolygons);
+    onClose();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onClose();
+    } else if (e.key === 'Enter') {
+      closePolygon();
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-90 flex items-center justify-center z-50"
+      onKeyDown={handleKeyDown}
+      tabIndex={0}
+    >
+      {/* Header */}
+      <div className="absolute top-4 left-4 right-4 flex justify-between items-center text-white z-10">
+        <h3 className="text-lg font-semibold">
+          Región de interés: {imageName}
+        </h3>
+        <button
+          onClick={onClose}
+          className="p-2 hover:bg-white hover:bg-opacity-20 rounded-full transition-colors"
+        >
+          <X className="h-6 w-6" />
+        </button>
+      </div>
+
+      {/* Controls */}
+      <div className="absolute top-4 right-20 flex space-x-2 z-10">
+        <button
+          onClick={closePolygon}
+          disabled={currentPoints.length < 3}
+          className="p-2 bg-black bg-opacity-50 hover:bg-opacity-70 rounded-full text-white transition-colors disabled:opacity-30"
+          title="Cerrar polígono"
+        >
+          <Pentagon className="h-5 w-5" />
+        </button>
+        <button
+          onClick={handleUndo}
+          disabled={currentPoints.length === 0 && polygons.length === 0}
+          className="p-2 bg-black bg-opacity-50 hover:bg-opacity-70 rounded-full text-white transition-colors disabled:opacity-30"
+          title="Deshacer"
+        >
+          <Undo2 className="h-5 w-5" />
+        </button>
+        <button
+          onClick={handleClear}
+          disabled={currentPoints.length === 0 && polygons.length === 0}
+          className="p-2 bg-black bg-opacity-50 hover:bg-opacity-70 rounded-full text-white transition-colors disabled:opacity-30"
+          title="Borrar todo"
+        >
+          <Trash2 className="h-5 w-5" />
+        </button>
+        <button
+          onClick={handleSave}
+          className="p-2 bg-green-600 hover:bg-green-700 rounded-full text-white transition-colors"
+          title="Guardar región de interés"
+        >
+          <Check className="h-5 w-5" />
+        </button>
+      </div>
+
+      {/* Drawing Area */}
+      <div className="flex items-center justify-center w-full h-full p-8">
+        <div className="relative cursor-crosshair select-none" onClick={handleImageClick}>
+          {/* Local blob/data URL: shown at its natural size, without the optimizer */}
+          <Image
+            ref={imgRef}
+            alt="Dibujar región de interés"
+            src={imageSrc}
+            width={0}
+            height={0}
+            unoptimized
+            draggable={false}
+            style={{
+              width: 'auto',
+              height: 'auto',
+              maxHeight: '70vh',
+              maxWidth: '70vw',
+            }}
+          />
+          <svg
+            className="absolute inset-0 w-full h-full pointer-events-none"
+            viewBox="0 0 100 100"
+            preserveAspectRatio="none"
+          >
+            {polygons.map((polygon, index) => (
+              <polygon
+                key={index}
+                points={toSvgPoints(polygon)}
+                fill="rgba(34, 197, 94, 0.25)"
+                stroke="rgb(34, 197, 94)"
+                strokeWidth={2}
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+            {currentPoints.length > 0 && (
+              <polyline
+                points={toSvgPoints(currentPoints)}
+                fill="none"
+                stroke="rgb(250, 204, 21)"
+                strokeWidth={2}
+                strokeDasharray="6 4"
+                vectorEffect="non-scaling-stroke"
+              />
+            )}
+          </svg>
+          {/* Vertices of the polygon being drawn */}
+          {currentPoints.map(([x, y], index) => (
+            <span
+              key={index}
+              className={`absolute -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white pointer-events-none ${
+                index === 0 ? 'h-4 w-4 bg-green-500' : 'h-3 w-3 bg-yellow-400'
+              }`}
+              style={{ left: `${x * 100}%`, top: `${y * 100}%` }}
+            />
+          ))}
+        </div>
+      </div>
+
+      {/* Status */}
+      <div className="absolute bottom-4 left-4 bg-black bg-opacity-50 text-white px-3 py-1 rounded text-sm">
+        {polygons.length} {polygons.length === 1 ? 'polígono' : 'polígonos'}
+        {currentPoints.length > 0 && ` • ${currentPoints.length} puntos en curso`}
+      </div>
+
+      {/* Instructions */}
+      <div className="absolute bottom-4 right-4 bg-black bg-opacity-50 text-white px-3 py-1 rounded text-sm">
+        Haz clic para añadir puntos • Clic en el primer punto o Enter para cerrar • ESC para salir
+      </div>
+    </div>
+  );
+};
+
+export default RoiDrawModal;
@@ -1,5 +1,5 @@
 import { useState, useCallback } from 'react';
-import { ImageFile } from '../types';
+import { ImageFile, RoiPolygon } from '../types';
 import { extractGpsFromImage, GpsCoordinates, extractDateTimeFromImage, DateTimeInfo } from '../utils/exif';
 import { createImagePreview, validateImageFile } from '../utils/helpers';
 import { parseFilename } from '../utils/filenameParser';
@@ -118,6 +118,14 @@ export const useImageUpload = () => {
     ));
   }, []);
 
+  const updateImageRoi = useCallback((file: File, roi: RoiPolygon[]) => {
+    setImages(prev => prev.map(img => 
+      img.file === file 
+        ? { ...img, roi: roi.length > 0 ? roi : undefined }
+        : img
+    ));
+  }, []);
+
   const clearImages = useCallback(() => {
     setImages([]);
   }, []);
@@ -128,7 +136,8 @@ export const useImageUpload = () => {
         return {
           ...img,
           file: newFile,
-          preview: URL.createObjectURL(newFile)
+          preview: URL.createObjectURL(newFile),
+          roi: undefined // Drawn on the previous image geometry
         };
       }
       return img;
@@ -153,6 +162,7 @@ export const useImageUpload = () => {
     addImages,
     removeImage,
     updateImageField,
+    updateImageRoi,
     clearImages,
     replaceImage,
     getImageCount,
@@ -1,148 +1,73 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { tensorFlowService, PixelClassificationResult } from '../services/tensorflowService';
-
-// Global state to prevent multiple initializations
-let globalInitializationPromise: Promise<void> | null = null;
-let globalIsInitialized = false;
+import { browserClassificationService, ClassificationCancelledError } from '../services/browserClassificationService';
+import { PixelClassificationResult, ClassificationOptions, ClassificationProgress } from '../services/tensorflowService';
 
 export interface UseTensorFlowReturn {
   isInitialized: boolean;
   isModelReady: boolean;
   isProcessing: boolean;
+  progress: ClassificationProgress | null; // Stage of the image being classified
   error: string | null;
   initialize: () => Promise<void>;
-  processImage: (imageFile: File) => Promise<PixelClassificationResult>;
+  processImage: (imageFile: File, options?: ClassificationOptions) => Promise<PixelClassificationResult>;
+  cancel: () => void; // processImage then rejects with ClassificationCancelledError
   dispose: () => void;
 }
 
 const useTensorFlowHook = (): UseTensorFlowReturn => {
-  const [isInitialized, setIsInitialized] = useState(globalIsInitialized);
+  const [isInitialized, setIsInitialized] = useState(false);
   const [isModelReady, setIsModelReady] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState<ClassificationProgress | null>(null);
   const [error, setError] = useState<string | null>(null);
   const initializationRef = useRef<boolean>(false);
 
   const initialize = useCallback(async () => {
-    // If already initialized globally, just update local state
-    if (globalIsInitialized) {
-      setIsInitialized(true);
-      setIsModelReady(true);
-      return;
-    }
-
-    // If already initializing, wait for the existing promise
-    if (globalInitializationPromise) {
-      try {
-        await globalInitializationPromise;
-        setIsInitialized(true);
-        setIsModelReady(true);
-        return;
-      } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-        setError(errorMessage);
-        return;
-      }
-    }
-
-    // Start new initialization
+    // TensorFlow.js, the model and the synced versions load once in the classification worker
     try {
       setError(null);
-      console.log('🚀 Initializing TensorFlow.js...');
-      
-      // Create global initialization promise
-      globalInitializationPromise = (async () => {
-        // Initialize TensorFlow.js
-        await tensorFlowService.initialize();
-        
-        // Create and train model
-        console.log('🧠 Creating model...');
-        await tensorFlowService.createModel();
-        
-        console.log('🎓 Training model...');
-        await tensorFlowService.trainModel();
-        
-        globalIsInitialized = true;
-        console.log('✅ TensorFlow.js ready!');
-      })();
+      console.log('🚀 Initializing TensorFlow.js worker...');
+      await browserClassificationService.initialize();
 
-      await globalInitializationPromise;
-      
       setIsInitialized(true);
       setIsModelReady(true);
-      
+      console.log('✅ TensorFlow.js ready!');
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Unknown error';
       setError(errorMessage);
       console.error('❌ TensorFlow initialization failed:', errorMessage);
-      globalInitializationPromise = null; // Reset on error
     }
   }, []);
 
-  const processImage = useCallback(async (imageFile: File): Promise<PixelClassificationResult> => {
+  const processImage = useCallback(async (imageFile: File, options: ClassificationOptions = {}): Promise<PixelClassificationResult> => {
     if (!isModelReady) {
       throw new Error('Model not ready');
     }
 
     setIsProcessing(true);
+    setProgress(null);
     setError(null);
 
     try {
-      // Create image element
-      const img = new Image();
-      const imageUrl = URL.createObjectURL(imageFile);
-      
-      return new Promise((resolve, reject) => {
-        img.onload = async () => {
-          try {
-            // Create canvas to get ImageData
-            const canvas = document.createElement('canvas');
-            const ctx = canvas.getContext('2d');
-            
-            if (!ctx) {
-              throw new Error('Could not get canvas context');
-            }
-            
-            canvas.width = img.width;
-            canvas.height = img.height;
-            
-            // Draw image to canvas
-            ctx.drawImage(img, 0, 0);
-            
-            // Get image data
-            const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-            
-            // Process with TensorFlow
-            const result = await tensorFlowService.classifyImagePixels(imageData);
-            
-            // Clean up
-            URL.revokeObjectURL(imageUrl);
-            
-            resolve(result);
-          } catch (err) {
-            URL.revokeObjectURL(imageUrl);
-            reject(err);
-          }
-        };
-        
-        img.onerror = () => {
-          URL.revokeObjectURL(imageUrl);
-          reject(new Error('Failed to load image'));
-        };
-        
-        img.src = imageUrl;
-      });
-      
+      // Decoded and classified in the worker, so the page stays responsive
+      return await browserClassificationService.classify(imageFile, options, setProgress);
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-      setError(errorMessage);
+      if (!(err instanceof ClassificationCancelledError)) {
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      }
       throw err;
     } finally {
       setIsProcessing(false);
+      setProgress(null);
     }
   }, [isModelReady]);
 
+  const cancel = useCallback(() => {
+    browserClassificationService.cancel();
+  }, []);
+
   const dispose = useCallback(() => {
-    // TensorFlow.js cleanup is handled automatically
+    browserClassificationService.dispose();
     setIsModelReady(false);
     setIsInitialized(false);
   }, []);
@@ -176,9 +101,11 @@ const useTensorFlowHook = (): UseTensorFlowReturn => {
     isInitialized,
     isModelReady,
     isProcessing,
+    progress,
     error,
     initialize,
     processImage,
+    cancel,
     dispose
   };
 };
@@ -1,6 +1,23 @@
 import axios from 'axios';
 import { FieldData, HistoryRecord, ApiResponse, ProcessingResult } from '../types';
 import { config } from '../config/environment';
+import type { CalibrationProfile } from './classifiers';
+import type { ModelVersion } from './modelStore';
+
+export interface StoredModelsResponse {
+  success: boolean;
+  models: ModelVersion[];
+  calibrations: ModelVersion[];
+  active: { model: string | null; calibration: string | null; calibrationProfile: string | null };
+}
+
+export interface ModelDownloadResponse {
+  success: boolean;
+  version: ModelVersion;
+  modelTopology: object;
+  weightSpecs: { name: string; shape: number[]; dtype: 'float32' | 'int32' | 'bool' | 'string' | 'complex64' }[];
+  weightData: string; // Base64
+}
 
 const API_BASE_URL = config.apiUrl;
 
@@ -92,6 +109,24 @@ export const apiService = {
     return response.data;
   },
 
+  // List stored model / calibration versions and the ones used by the server
+  getModels: async (): Promise<StoredModelsResponse> => {
+    const response = await api.get('/api/models');
+    return response.data;
+  },
+
+  // Download a stored MLP version
+  getModel: async (version: string): Promise<ModelDownloadResponse> => {
+    const response = await api.get(`/api/models/${version}`);
+    return response.data;
+  },
+
+  // Download a stored calibration profile version
+  getCalibrationProfile: async (name: string, version: string): Promise<CalibrationProfile> => {
+    const response = await api.get(`/api/models/${version}`, { params: { profile: name } });
+    return response.data.profile;
+  },
+
   // Check GPS info from image
   checkGpsInfo: async (file: File): Promise<ApiResponse<{ hasGps: boolean; coordinates?: { lat: number; lng: number } }>> => {
     const formData = new FormData();
@@ -0,0 +1,141 @@
+// Browser-side classification in a dedicated Web Worker (see browserClassificationWorker)
+// so decoding and classifying large photos does not freeze the page. One image at a time;
+// cancel() terminates the worker and a new one is started by the next classify().
+import { ClassificationOptions, ClassificationProgress, PixelClassificationResult } from './tensorflowService';
+
+export type BrowserWorkerRequest = { type: 'classify'; id: number; file: File; options: ClassificationOptions };
+
+export type BrowserWorkerResponse =
+  | { type: 'ready' }
+  | { type: 'failed'; message: string } // Initialization failed
+  | { type: 'progress'; id: number; progress: ClassificationProgress }
+  | { type: 'result'; id: number; result: PixelClassificationResult }
+  | { type: 'error'; id: number; message: string };
+
+export class ClassificationCancelledError extends Error {
+  constructor() {
+    super('Classification cancelled');
+    this.name = 'ClassificationCancelledError';
+  }
+}
+
+interface PendingClassification {
+  id: number;
+  resolve: (result: PixelClassificationResult) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: ClassificationProgress) => void;
+}
+
+class BrowserClassificationService {
+  private worker: Worker | null = null;
+  private readyPromise: Promise<void> | null = null;
+  private pending: PendingClassification | null = null;
+  private nextJobId = 1;
+
+  isSupported(): boolean {
+    return typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+  }
+
+  /**
+   * Start the worker, which loads TensorFlow.js and the synced model versions
+   */
+  initialize(): Promise<void> {
+    if (!this.readyPromise) {
+      this.readyPromise = new Promise<void>((resolve, reject) => {
+        if (!this.isSupported()) {
+          reject(new Error('This browser does not support Web Workers with OffscreenCanvas'));
+          return;
+        }
+
+        const worker = new Worker(new URL('./browserClassificationWorker.ts', import.meta.url));
+        worker.onmessage = (event: MessageEvent<BrowserWorkerResponse>) => {
+          const response = event.data;
+          if (response.type === 'ready') {
+            resolve();
+          } else if (response.type === 'failed') {
+            const error = new Error(response.message);
+            reject(error);
+            this.reset(error);
+          } else {
+            this.handleResponse(response);
+          }
+        };
+        worker.onerror = event => {
+          const error = new Error(event.message || 'Classification worker failed');
+          reject(error);
+          this.reset(error);
+        };
+        this.worker = worker;
+      });
+    }
+
+    return this.readyPromise;
+  }
+
+  /**
+   * Decode and classify an image file in the worker
+   * @throws ClassificationCancelledError when cancel() is called before it finishes
+   */
+  async classify(
+    file: File,
+    options: ClassificationOptions = {},
+    onProgress?: (progress: ClassificationProgress) => void
+  ): Promise<PixelClassificationResult> {
+    await this.initialize();
+
+    const { worker } = this;
+    if (!worker) {
+      throw new ClassificationCancelledError();
+    }
+    if (this.pending) {
+      throw new Error('An image is already being classified');
+    }
+
+    return new Promise((resolve, reject) => {
+      const id = this.nextJobId++;
+      this.pending = { id, resolve, reject, onProgress };
+      const request: BrowserWorkerRequest = { type: 'classify', id, file, options };
+      worker.postMessage(request);
+    });
+  }
+
+  /**
+   * Stop the running classification (the next one restarts the worker and reloads the model)
+   */
+  cancel(): void {
+    if (this.pending) {
+      this.reset(new ClassificationCancelledError());
+    }
+  }
+
+  dispose(): void {
+    this.reset(new ClassificationCancelledError());
+  }
+
+  private handleResponse(response: Exclude<BrowserWorkerResponse, { type: 'ready' } | { type: 'failed' }>): void {
+    const job = this.pending;
+    if (!job || job.id !== response.id) return;
+
+    if (response.type === 'progress') {
+      job.onProgress?.(response.progress);
+      return;
+    }
+
+    this.pending = null;
+    if (response.type === 'result') {
+      job.resolve(response.result);
+    } else {
+      job.reject(new Error(response.message));
+    }
+  }
+
+  private reset(error: Error): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.readyPromise = null;
+    this.pending?.reject(error);
+    this.pending = null;
+  }
+}
+
+export const browserClassificationService = new BrowserClassificationService();
@@ -0,0 +1,62 @@
+// Dedicated Web Worker started by browserClassificationService
+// Decodes with OffscreenCanvas and classifies tile by tile, reporting progress after every tile.
+import type { BrowserWorkerRequest, BrowserWorkerResponse } from './browserClassificationService';
+import { modelSyncService } from './modelSyncService';
+import { DEFAULT_TILE_SIZE, tensorFlowService } from './tensorflowService';
+
+const post = (response: BrowserWorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(response, { transfer });
+};
+
+const decodeImage = async (file: File): Promise<ImageData> => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Could not get canvas context');
+    }
+    ctx.drawImage(bitmap, 0, 0);
+    return ctx.getImageData(0, 0, bitmap.width, bitmap.height);
+  } finally {
+    bitmap.close();
+  }
+};
+
+const ready = (async () => {
+  await tensorFlowService.initialize();
+  await tensorFlowService.createModel();
+  await tensorFlowService.trainModel();
+
+  // Use the server's trained MLP and calibration profile when available (heuristics still work without them)
+  try {
+    await modelSyncService.sync(tensorFlowService);
+  } catch (error) {
+    console.warn('⚠️ Could not load stored model versions:', error);
+  }
+})();
+
+ready.then(
+  () => post({ type: 'ready' }),
+  error => post({ type: 'failed', message: error instanceof Error ? error.message : String(error) })
+);
+
+self.addEventListener('message', async (event: MessageEvent<BrowserWorkerRequest>) => {
+  const { id, file, options } = event.data;
+
+  try {
+    await ready;
+    post({ type: 'progress', id, progress: { stage: 'decoding', completed: 0, total: 1 } });
+    const imageData = await decodeImage(file);
+
+    // Tiles give progress steps; image-level fits still use the whole image, so results match untiled classification
+    const result = await tensorFlowService.classifyImagePixels(imageData, {
+      ...options,
+      tileSize: DEFAULT_TILE_SIZE,
+      onProgress: progress => post({ type: 'progress', id, progress })
+    });
+    post({ type: 'result', id, result }, [result.classificationMap.buffer as ArrayBuffer, result.confidenceMap.buffer as ArrayBuffer]);
+  } catch (error) {
+    post({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+  }
+});
@@ -0,0 +1,166 @@
+// Threshold calibration against the labelme masks, persisted as named profiles
+import { LuminanceModel, SegmentationClass } from '../types';
+import { SEGMENTATION_CLASSES } from '../utils/constants';
+import { datasetService, UNLABELLED_PIXEL } from './datasetService';
+import { fileModelStore } from './fileModelStore';
+import { ModelVersion, PROFILE_NAME_PATTERN } from './modelStore';
+import { FeatureKeys, thresholdFeatureKeys } from './classifiers/pixelUtils';
+import { CalibrationProfile, ThresholdFeature } from './tensorflowService';
+
+// Features searched for the threshold; 'brightness' follows the luminance given to calibrate()
+const THRESHOLD_FEATURES: ThresholdFeature[] = ['brightness', 'r', 'g', 'b'];
+
+// Key of a pixel's feature, combined like buildThresholdMap does
+const featureKey = ({ channelKeys: [redKeys, greenKeys, blueKeys], combine }: FeatureKeys, r: number, g: number, b: number): number => {
+  return combine === 'max'
+    ? Math.max(redKeys[r], greenKeys[g], blueKeys[b])
+    : redKeys[r] + greenKeys[g] + blueKeys[b];
+};
+
+class CalibrationService {
+  /**
+   * Name of the profile loaded at startup
+   */
+  getActiveProfileName(): string {
+    return process.env.CALIBRATION_PROFILE || 'default';
+  }
+
+  /**
+   * Search the feature/threshold pair that best agrees with the labelled light/shadow pixels
+   * and recompute the multiclass prototypes from the labelled polygons
+   * @param luminance Definition of 'brightness'; the fixed threshold is only applied to this luminance
+   */
+  async calibrate(name: string, luminance: LuminanceModel = 'mean'): Promise<CalibrationProfile> {
+    this.validateName(name);
+
+    const dataset = await datasetService.loadDataset();
+    if (dataset.length === 0) {
+      throw new Error('No annotated images found in the dataset');
+    }
+
+    // Histograms of the feature keys (see thresholdFeatureKeys), so no luminance formula runs per pixel
+    const featureKeys = THRESHOLD_FEATURES.map(feature => thresholdFeatureKeys(feature, luminance));
+    const histograms = featureKeys.map(keys => ({
+      light: new Array<number>(keys.values.length).fill(0),
+      shadow: new Array<number>(keys.values.length).fill(0)
+    }));
+    const colorSums = SEGMENTATION_CLASSES.map(() => [0, 0, 0, 0]); // r, g, b, count
+
+    for (const annotatedImage of dataset) {
+      const { data } = annotatedImage.imageData;
+      const { labelMask } = annotatedImage;
+
+      for (let i = 0; i < labelMask.length; i++) {
+        const label = labelMask[i];
+        if (label === UNLABELLED_PIXEL) continue;
+
+        const r = data[i * 4];
+        const g = data[i * 4 + 1];
+        const b = data[i * 4 + 2];
+
+        const sums = colorSums[label];
+        sums[0] += r;
+        sums[1] += g;
+        sums[2] += b;
+        sums[3]++;
+
+        const light = SEGMENTATION_CLASSES[label].light;
+        if (light === null) continue; // Trunks are neither light nor shadow
+
+        const bucket = light ? 'light' : 'shadow';
+        featureKeys.forEach((keys, feature) => {
+          histograms[feature][bucket][featureKey(keys, r, g, b)]++;
+        });
+      }
+    }
+
+    let best = { feature: 'brightness' as ThresholdFeature, threshold: 0, agreement: -1 };
+    THRESHOLD_FEATURES.forEach((feature, index) => {
+      const candidate = this.searchThreshold(histograms[index], featureKeys[index].values);
+      console.log(`🎯 ${feature}: best threshold ${candidate.threshold} (agreement ${(candidate.agreement * 100).toFixed(2)}%)`);
+      if (candidate.agreement > best.agreement) {
+        best = { feature, ...candidate };
+      }
+    });
+
+    const prototypes = {} as Record<SegmentationClass, [number, number, number]>;
+    SEGMENTATION_CLASSES.forEach((segmentationClass, index) => {
+      const [r, g, b, count] = colorSums[index];
+      prototypes[segmentationClass.id] = count > 0
+        ? [Math.round(r / count), Math.round(g / count), Math.round(b / count)]
+        : segmentationClass.prototype;
+    });
+
+    return {
+      name,
+      createdAt: new Date().toISOString(),
+      feature: best.feature,
+      threshold: best.threshold,
+      luminance,
+      agreement: best.agreement,
+      prototypes,
+      images: dataset.map(annotatedImage => annotatedImage.name)
+    };
+  }
+
+  /**
+   * Store the profile as a new version in the model store (stamps profile.version)
+   */
+  async saveProfile(profile: CalibrationProfile): Promise<ModelVersion> {
+    return fileModelStore.saveCalibration(profile);
+  }
+
+  /**
+   * Load a profile by name (latest version unless one is given), or null if it does not exist
+   */
+  async loadProfile(name: string = this.getActiveProfileName(), version?: string): Promise<CalibrationProfile | null> {
+    return fileModelStore.loadCalibration(name, version);
+  }
+
+  /**
+   * Latest version of every stored profile
+   */
+  async listProfiles(): Promise<CalibrationProfile[]> {
+    const names = new Set((await fileModelStore.listVersions('calibration')).map(version => version.name));
+    const profiles = await Promise.all([...names].sort().map(name => this.loadProfile(name)));
+    return profiles.filter((profile): profile is CalibrationProfile => profile !== null);
+  }
+
+  /**
+   * Sweep every integer threshold; pixels whose key value is > threshold are light (values grow with the key)
+   */
+  private searchThreshold(histogram: { light: number[]; shadow: number[] }, values: Float64Array): { threshold: number; agreement: number } {
+    const totalLight = histogram.light.reduce((sum, count) => sum + count, 0);
+    const totalShadow = histogram.shadow.reduce((sum, count) => sum + count, 0);
+    const total = totalLight + totalShadow;
+
+    let lightAtOrBelow = 0;
+    let shadowAtOrBelow = 0;
+    let key = 0;
+    let best = { threshold: 0, agreement: 0 };
+
+    for (let threshold = 0; threshold <= 255; threshold++) {
+      while (key < values.length && values[key] <= threshold) {
+        lightAtOrBelow += histogram.light[key];
+        shadowAtOrBelow += histogram.shadow[key];
+        key++;
+      }
+
+      // Light pixels above the threshold + shadow pixels at or below it
+      const agreement = total > 0 ? ((totalLight - lightAtOrBelow) + shadowAtOrBelow) / total : 0;
+      if (agreement > best.agreement) {
+        best = { threshold, agreement };
+      }
+    }
+
+    return best;
+  }
+
+  private validateName(name: string): void {
+    if (!PROFILE_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid calibration profile name: "${name}"`);
+    }
+  }
+}
+
+export const calibrationService = new CalibrationService();
@@ -0,0 +1,222 @@
+// Pool of worker threads for the server-side classification of /api/procesar-imagen
+// Jobs wait in a FIFO queue until a worker is free, so concurrent uploads are classified in parallel
+// without blocking the event loop. CLASSIFICATION_WORKERS=0 classifies in-process instead.
+import os from 'os';
+import { Worker } from 'worker_threads';
+import { CalibrationProfile, classifierRegistry } from './classifiers';
+import { ImageTooLargeError, serverImageService } from './serverImageService';
+import { getServerTensorFlowService } from './serverTensorFlow';
+import { ClassificationOptions, PixelClassificationResult, TensorFlowService } from './tensorflowService';
+
+// Calibration profile and stored MLP version the workers mirror from the main-thread service
+export interface WorkerConfiguration {
+  calibration: CalibrationProfile | null;
+  modelVersion: string | null;
+}
+
+export type WorkerRequest =
+  | { type: 'classify'; id: number; image: ArrayBuffer; options: ClassificationOptions; tiled: boolean }
+  | { type: 'configure'; configuration: WorkerConfiguration };
+
+export type WorkerResponse =
+  | { type: 'result'; id: number; result: PixelClassificationResult }
+  | { type: 'error'; id: number; name: string; message: string }
+  | { type: 'failed'; name: string; message: string }; // Initialization or configuration failed: the worker is unusable
+
+// Thrown when CLASSIFICATION_QUEUE_LIMIT jobs are already waiting (HTTP 503)
+export class ClassificationQueueFullError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ClassificationQueueFullError';
+  }
+}
+
+interface ClassificationJob {
+  id: number;
+  image: ArrayBuffer;
+  options: ClassificationOptions;
+  tiled: boolean;
+  resolve: (result: PixelClassificationResult) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  job: ClassificationJob | null;
+}
+
+/**
+ * Worker count from CLASSIFICATION_WORKERS (default: one per CPU core but one, at least one)
+ */
+const parseWorkerCount = (value: string | undefined): number => {
+  const count = Number.parseInt(value ?? '', 10);
+  return Number.isNaN(count) || count < 0 ? Math.max(1, os.cpus().length - 1) : count;
+};
+
+const workerConfiguration = (service: TensorFlowService): WorkerConfiguration => ({
+  calibration: service.getCalibration(),
+  modelVersion: service.getStatus().modelVersion?.id ?? null
+});
+
+// Errors cross the thread boundary as name + message
+const responseError = (response: { name: string; message: string }): Error => {
+  if (response.name === 'ImageTooLargeError') {
+    return new ImageTooLargeError(response.message);
+  }
+  const error = new Error(response.message);
+  error.name = response.name;
+  return error;
+};
+
+class ClassificationPool {
+  private size = parseWorkerCount(process.env.CLASSIFICATION_WORKERS);
+  private queueLimit = Number(process.env.CLASSIFICATION_QUEUE_LIMIT) || 64;
+  private workers: PoolWorker[] = [];
+  private queue: ClassificationJob[] = [];
+  private nextJobId = 1;
+  private configuration: WorkerConfiguration | null = null;
+
+  /**
+   * Decode and classify an uploaded image on the next free worker (see serverImageService.classify)
+   * @throws ImageTooLargeError if the image does not fit the memory limit, ClassificationQueueFullError if the queue is full
+   */
+  async classify(image: ArrayBuffer, options: ClassificationOptions, tiled: boolean = false): Promise<PixelClassificationResult> {
+    // The main-thread service is the reference configuration (and trains the MLP on startup if asked to)
+    const service = await getServerTensorFlowService();
+
+    // Workers only load stored MLP versions: a model trained with save=false lives in this thread alone
+    const status = service.getStatus();
+    const usesUnsavedModel = status.modelTrained && !status.modelVersion
+      && !!options.classifier && classifierRegistry.get(options.classifier).usesModel;
+
+    if (this.size === 0 || usesUnsavedModel) {
+      return serverImageService.classify(service, Buffer.from(image), options, tiled);
+    }
+
+    if (this.queue.length >= this.queueLimit) {
+      throw new ClassificationQueueFullError(`Classification queue is full (${this.queueLimit} images waiting)`);
+    }
+
+    if (!this.configuration) {
+      this.configuration = workerConfiguration(service);
+    }
+
+    return new Promise((resolve, reject) => {
+      this.queue.push({ id: this.nextJobId++, image, options, tiled, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Apply the main-thread calibration and MLP version to the workers
+   * Call after training (once the model is saved: workers load it from the store) or calibrating.
+   */
+  async syncConfiguration(): Promise<void> {
+    this.configuration = workerConfiguration(await getServerTensorFlowService());
+    const request: WorkerRequest = { type: 'configure', configuration: this.configuration };
+    for (const { worker } of this.workers) {
+      worker.postMessage(request);
+    }
+  }
+
+  /**
+   * Stop every worker and fail the queued and running jobs (e.g. before a dev reload replaces the module)
+   */
+  async dispose(): Promise<void> {
+    const error = new Error('Classification pool disposed');
+    const queued = this.queue;
+    const workers = this.workers;
+    this.queue = [];
+    this.workers = [];
+    queued.forEach(job => job.reject(error));
+    await Promise.all(workers.map(async ({ worker, job }) => {
+      job?.reject(error);
+      await worker.terminate();
+    }));
+  }
+
+  getStatus(): { size: number; workers: number; busy: number; queued: number; queueLimit: number } {
+    return {
+      size: this.size,
+      workers: this.workers.length,
+      busy: this.workers.filter(poolWorker => poolWorker.job).length,
+      queued: this.queue.length,
+      queueLimit: this.queueLimit
+    };
+  }
+
+  /**
+   * Hand queued jobs to idle workers, starting workers up to the pool size
+   */
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      const poolWorker = this.workers.find(candidate => !candidate.job)
+        ?? (this.workers.length < this.size ? this.spawn() : null);
+      const job = poolWorker && this.queue.shift();
+      if (!poolWorker || !job) return;
+
+      poolWorker.job = job;
+      const request: WorkerRequest = { type: 'classify', id: job.id, image: job.image, options: job.options, tiled: job.tiled };
+      poolWorker.worker.postMessage(request, [job.image]);
+    }
+  }
+
+  private spawn(): PoolWorker {
+    // webpack bundles the worker as its own chunk because of the new Worker(new URL(..., import.meta.url)) form;
+    // `next build` emits it under .next/server/chunks (see README, "Procesamiento en paralelo")
+    const worker = new Worker(new URL('./classificationWorker.ts', import.meta.url), { workerData: this.configuration });
+    // Idle workers do not keep the process alive
+    worker.unref();
+    const poolWorker: PoolWorker = { worker, job: null };
+
+    worker.on('message', (response: WorkerResponse) => {
+      if (response.type === 'failed') {
+        console.error('❌ Classification worker could not be configured:', response.message);
+        this.remove(poolWorker, responseError(response));
+        void worker.terminate();
+        return;
+      }
+
+      const { job } = poolWorker;
+      if (!job || job.id !== response.id) return;
+
+      poolWorker.job = null;
+      if (response.type === 'result') {
+        job.resolve(response.result);
+      } else {
+        job.reject(responseError(response));
+      }
+      this.dispatch();
+    });
+    worker.on('error', error => {
+      console.error('❌ Classification worker failed:', error);
+      this.remove(poolWorker, error);
+    });
+    worker.on('exit', code => {
+      this.remove(poolWorker, new Error(`Classification worker exited with code ${code}`));
+    });
+
+    this.workers.push(poolWorker);
+    console.log(`🧵 Classification worker started (${this.workers.length}/${this.size})`);
+    return poolWorker;
+  }
+
+  /**
+   * Drop a dead worker, failing its job; queued jobs go to a replacement
+   */
+  private remove(poolWorker: PoolWorker, error: Error): void {
+    // 'error' is followed by 'exit'
+    if (!this.workers.includes(poolWorker)) return;
+
+    this.workers = this.workers.filter(candidate => candidate !== poolWorker);
+    poolWorker.job?.reject(error);
+    poolWorker.job = null;
+    this.dispatch();
+  }
+}
+
+// Kept on globalThis so dev reloads of this module reuse the running workers instead of starting another pool
+const globalForPool = globalThis as typeof globalThis & { classificationPool?: ClassificationPool };
+
+export const classificationPool = globalForPool.classificationPool ?? new ClassificationPool();
+globalForPool.classificationPool = classificationPool;
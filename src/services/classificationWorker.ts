@@ -0,0 +1,63 @@
+// Worker thread started by classificationPool
+// Holds its own TensorFlowService, configured like the main-thread one (calibration and MLP version).
+import { parentPort, workerData } from 'worker_threads';
+import type { WorkerConfiguration, WorkerRequest, WorkerResponse } from './classificationPool';
+import { fileModelStore } from './fileModelStore';
+import { serverImageService } from './serverImageService';
+import { TensorFlowService } from './tensorflowService';
+
+const service = new TensorFlowService();
+
+const configure = async (configuration: WorkerConfiguration | null): Promise<void> => {
+  if (!configuration) return;
+
+  service.setCalibration(configuration.calibration);
+  const { modelVersion } = configuration;
+  if (modelVersion && modelVersion !== service.getStatus().modelVersion?.id) {
+    await service.loadModel(fileModelStore, modelVersion);
+  }
+};
+
+const errorFields = (error: unknown): { name: string; message: string } => ({
+  name: error instanceof Error ? error.name : 'Error',
+  message: error instanceof Error ? error.message : String(error)
+});
+
+// A worker that could not load its calibration or model must not classify: the pool terminates it
+const reportFailure = (error: unknown): void => {
+  console.error('⚠️ Error configuring classification worker:', error);
+  const response: WorkerResponse = { type: 'failed', ...errorFields(error) };
+  parentPort?.postMessage(response);
+};
+
+// Jobs wait for the initialization and for the configuration received before them
+let ready: Promise<void> = (async () => {
+  await service.initialize();
+  await service.createModel();
+  await service.trainModel();
+  await configure(workerData as WorkerConfiguration | null);
+})();
+ready.catch(reportFailure);
+
+const classify = async (request: Extract<WorkerRequest, { type: 'classify' }>): Promise<void> => {
+  try {
+    await ready;
+    const result = await serverImageService.classify(service, Buffer.from(request.image), request.options, request.tiled);
+    const response: WorkerResponse = { type: 'result', id: request.id, result };
+    parentPort?.postMessage(response, [result.classificationMap.buffer as ArrayBuffer, result.confidenceMap.buffer as ArrayBuffer]);
+  } catch (error) {
+    const response: WorkerResponse = { type: 'error', id: request.id, ...errorFields(error) };
+    parentPort?.postMessage(response);
+  }
+};
+
+parentPort?.on('message', (request: WorkerRequest) => {
+  if (request.type === 'configure') {
+    // Chained on the previous state: once failed, the worker stays failed
+    ready = ready.then(() => configure(request.configuration));
+    ready.catch(reportFailure);
+    return;
+  }
+
+  void classify(request);
+});
@@ -0,0 +1,62 @@
+// Per-image threshold from the image's own histogram (Otsu or bimodal valley)
+import { LuminanceModel, ThresholdMethod } from '../../types';
+import { otsuThreshold, valleyThreshold } from '../../utils/histogram';
+import { buildThresholdMap, countFeatureKeys, keyCountHistogram, thresholdFeatureKeys } from './pixelUtils';
+import { ClassifierContext, ClassifierOutput, ClassifierStrategy, ImageFit, ThresholdFeature } from './types';
+
+export class AdaptiveThresholdClassifier implements ClassifierStrategy {
+  readonly name = 'adaptive';
+  readonly label = 'Umbral adaptativo';
+  readonly modes: ClassifierStrategy['modes'] = ['binary'];
+  readonly thresholdMethods: ClassifierStrategy['thresholdMethods'] = ['otsu', 'valley'];
+  readonly usesModel = false;
+
+  async classify(imageData: ImageData, context: ClassifierContext): Promise<ClassifierOutput> {
+    const { width, height } = imageData;
+    const feature = context.feature ?? context.calibration?.feature ?? 'brightness';
+    const thresholdMethod = context.thresholdMethod === 'valley' ? 'valley' : 'otsu'; // Default: Otsu
+    const threshold = context.imageFit?.threshold
+      ?? this.computeThreshold(imageData, feature, context.luminance, thresholdMethod, context.roiMask);
+
+    console.log(`🔍 Processing image: ${width}x${height} pixels with adaptive threshold (${feature} > ${threshold}, ${thresholdMethod})`);
+
+    return {
+      ...buildThresholdMap(imageData, context.roiMask, feature, threshold, context.luminance),
+      threshold,
+      thresholdMethod
+    };
+  }
+
+  async fitImage(overview: ImageData, context: ClassifierContext): Promise<ImageFit> {
+    const feature = context.feature ?? context.calibration?.feature ?? 'brightness';
+    const thresholdMethod = context.thresholdMethod === 'valley' ? 'valley' : 'otsu';
+    return { threshold: this.computeThreshold(overview, feature, context.luminance, thresholdMethod, context.roiMask) };
+  }
+
+  /**
+   * Threshold from the histogram of the pixels inside the ROI (whole image without ROI)
+   * Falls back to Otsu when the histogram never becomes bimodal.
+   */
+  private computeThreshold(
+    imageData: ImageData,
+    feature: ThresholdFeature,
+    luminance: LuminanceModel | undefined,
+    method: Exclude<ThresholdMethod, 'fixed'>,
+    roiMask: Uint8Array | null
+  ): number {
+    const keys = thresholdFeatureKeys(feature, luminance);
+    const keyCounts = new Uint32Array(keys.values.length);
+    countFeatureKeys(imageData, roiMask, keys, keyCounts);
+    const histogram = keyCountHistogram(keyCounts, keys.values);
+
+    if (method === 'valley') {
+      const valley = valleyThreshold(histogram);
+      if (valley !== null) {
+        return valley;
+      }
+      console.log('⚠️ Histogram is not bimodal, falling back to Otsu');
+    }
+
+    return otsuThreshold(histogram);
+  }
+}
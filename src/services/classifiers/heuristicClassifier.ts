@@ -0,0 +1,38 @@
+// Original brightness heuristic: global (calibrated) threshold, nearest class prototype in multiclass mode
+import { SEGMENTATION_CLASSES } from '../../utils/constants';
+import { buildNearestPrototypeMap, buildThresholdMap, getPrototypes, LIGHT_SHADOW_GROUPS } from './pixelUtils';
+import { ClassifierContext, ClassifierOutput, ClassifierStrategy } from './types';
+
+// Fallback when no calibration profile is loaded
+export const DEFAULT_THRESHOLD = 130;
+
+export class HeuristicClassifier implements ClassifierStrategy {
+  readonly name = 'heuristic';
+  readonly label = 'Heurística de brillo';
+  readonly modes: ClassifierStrategy['modes'] = ['binary', 'multiclass'];
+  readonly thresholdMethods: ClassifierStrategy['thresholdMethods'] = ['fixed'];
+  readonly usesModel = false;
+
+  async classify(imageData: ImageData, context: ClassifierContext): Promise<ClassifierOutput> {
+    const { width, height } = imageData;
+
+    if (context.mode === 'multiclass') {
+      const prototypes = getPrototypes(context.calibration);
+      console.log(`🔍 Processing image: ${width}x${height} pixels with ${SEGMENTATION_CLASSES.length}-class segmentation`);
+
+      // Confidence of the light/shadow decision, not between classes of the same group
+      return buildNearestPrototypeMap(imageData, context.roiMask, prototypes, LIGHT_SHADOW_GROUPS);
+    }
+
+    const feature = context.calibration?.feature ?? 'brightness';
+    const threshold = context.calibration?.threshold ?? DEFAULT_THRESHOLD;
+    console.log(`🔍 Processing image: ${width}x${height} pixels with simple heuristic (${feature} > ${threshold})`);
+
+    // Threshold calibrated against dataset/anotaciones: 0 = light, 1 = shadow
+    return {
+      ...buildThresholdMap(imageData, context.roiMask, feature, threshold, context.luminance),
+      threshold,
+      thresholdMethod: 'fixed'
+    };
+  }
+}
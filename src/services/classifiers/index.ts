@@ -0,0 +1,57 @@
+// Registry of the pixel classification strategies, looked up by name
+import type { ClassificationOptions } from '../tensorflowService';
+import { AdaptiveThresholdClassifier } from './adaptiveThresholdClassifier';
+import { HeuristicClassifier } from './heuristicClassifier';
+import { KMeansClassifier } from './kmeansClassifier';
+import { MlpClassifier } from './mlpClassifier';
+import { ClassifierStrategy } from './types';
+
+export * from './types';
+export { DEFAULT_THRESHOLD } from './heuristicClassifier';
+
+export const DEFAULT_CLASSIFIER = 'heuristic';
+
+/**
+ * Registered strategy that classifies with these options (hemispherical photos always use the adaptive threshold)
+ */
+export const resolveClassifierName = (options: ClassificationOptions): string => {
+  if (options.hemispherical) return 'adaptive';
+  return options.classifier ?? (options.thresholdMethod && options.thresholdMethod !== 'fixed' ? 'adaptive' : DEFAULT_CLASSIFIER);
+};
+
+class ClassifierRegistry {
+  private strategies = new Map<string, ClassifierStrategy>();
+
+  /**
+   * Register a strategy under its name (replaces any strategy with the same name)
+   */
+  register(strategy: ClassifierStrategy): void {
+    this.strategies.set(strategy.name, strategy);
+  }
+
+  has(name: string): boolean {
+    return this.strategies.has(name);
+  }
+
+  get(name: string): ClassifierStrategy {
+    const strategy = this.strategies.get(name);
+    if (!strategy) {
+      throw new Error(`Unknown classifier: "${name}"`);
+    }
+    return strategy;
+  }
+
+  /**
+   * Registered strategies in registration order
+   */
+  list(): ClassifierStrategy[] {
+    return Array.from(this.strategies.values());
+  }
+}
+
+export const classifierRegistry = new ClassifierRegistry();
+
+classifierRegistry.register(new HeuristicClassifier());
+classifierRegistry.register(new AdaptiveThresholdClassifier());
+classifierRegistry.register(new MlpClassifier());
+classifierRegistry.register(new KMeansClassifier());
@@ -0,0 +1,114 @@
+// Unsupervised k-means clustering in RGB, seeded with the class prototypes
+import { SEGMENTATION_CLASSES } from '../../utils/constants';
+import { buildNearestPrototypeMap, getPrototypes, LIGHT_SHADOW_GROUPS, nearestPrototype } from './pixelUtils';
+import { ClassifierContext, ClassifierOutput, ClassifierStrategy, ImageFit } from './types';
+
+const MAX_ITERATIONS = 20;
+const MAX_SAMPLES = 20000; // Pixels used to fit the centroids
+const CONVERGENCE_SHIFT = 0.5; // Stop when no centroid moves more than this (RGB units)
+
+type Centroid = [number, number, number];
+
+// Mean of the given prototypes
+const meanColor = (colors: Centroid[]): Centroid => {
+  const sum = colors.reduce((acc, [r, g, b]) => [acc[0] + r, acc[1] + g, acc[2] + b], [0, 0, 0]);
+  return [sum[0] / colors.length, sum[1] / colors.length, sum[2] / colors.length];
+};
+
+export class KMeansClassifier implements ClassifierStrategy {
+  readonly name = 'kmeans';
+  readonly label = 'K-means';
+  readonly modes: ClassifierStrategy['modes'] = ['binary', 'multiclass'];
+  readonly thresholdMethods: ClassifierStrategy['thresholdMethods'] = [];
+  readonly usesModel = false;
+
+  async classify(imageData: ImageData, context: ClassifierContext): Promise<ClassifierOutput> {
+    const { width, height } = imageData;
+    const centroids = context.imageFit?.centroids ?? this.fitCentroids(imageData, context);
+    console.log(`🔍 Processing image: ${width}x${height} pixels with k-means (k = ${centroids.length})`);
+
+    return buildNearestPrototypeMap(imageData, context.roiMask, centroids, context.mode === 'multiclass' ? LIGHT_SHADOW_GROUPS : undefined);
+  }
+
+  async fitImage(overview: ImageData, context: ClassifierContext): Promise<ImageFit> {
+    return { centroids: this.fitCentroids(overview, context) };
+  }
+
+  /**
+   * Clusters keep the meaning of the prototype they were seeded with:
+   * binary seeds are the mean light and mean shadow prototypes, multiclass seeds are the class prototypes.
+   */
+  private fitCentroids(imageData: ImageData, context: ClassifierContext): Centroid[] {
+    const prototypes = getPrototypes(context.calibration);
+    const seeds: Centroid[] = context.mode === 'multiclass'
+      ? prototypes
+      : [
+          meanColor(prototypes.filter((_, index) => SEGMENTATION_CLASSES[index].light === true)),
+          meanColor(prototypes.filter((_, index) => SEGMENTATION_CLASSES[index].light === false))
+        ];
+
+    const centroids = this.fit(imageData, seeds, context.roiMask);
+
+    if (context.mode === 'binary') {
+      // The light cluster must stay the brighter one
+      const brightness = ([r, g, b]: Centroid) => r + g + b;
+      if (brightness(centroids[1]) > brightness(centroids[0])) {
+        centroids.reverse();
+      }
+    }
+
+    return centroids;
+  }
+
+  /**
+   * Lloyd iterations on a regular sample of the pixels inside the ROI
+   */
+  private fit(imageData: ImageData, seeds: Centroid[], roiMask: Uint8Array | null): Centroid[] {
+    const { data } = imageData;
+    const pixelCount = data.length / 4;
+    const candidates = roiMask ? roiMask.reduce((sum, inside) => sum + inside, 0) : pixelCount;
+    const stride = Math.max(1, Math.ceil(candidates / MAX_SAMPLES));
+
+    const samples: number[] = [];
+    let candidateIndex = 0;
+    for (let i = 0; i < pixelCount; i++) {
+      if (roiMask && !roiMask[i]) continue;
+      if (candidateIndex++ % stride === 0) {
+        samples.push(i * 4);
+      }
+    }
+
+    const centroids = seeds.map(seed => [...seed] as Centroid);
+
+    for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+      const sums = centroids.map(() => [0, 0, 0, 0]); // r, g, b, count
+
+      samples.forEach(pixelIndex => {
+        const r = data[pixelIndex];
+        const g = data[pixelIndex + 1];
+        const b = data[pixelIndex + 2];
+        const cluster = nearestPrototype(r, g, b, centroids);
+        sums[cluster][0] += r;
+        sums[cluster][1] += g;
+        sums[cluster][2] += b;
+        sums[cluster][3]++;
+      });
+
+      let maxShift = 0;
+      centroids.forEach((centroid, cluster) => {
+        const [r, g, b, count] = sums[cluster];
+        if (count === 0) return; // Empty clusters keep their centroid
+
+        const updated: Centroid = [r / count, g / count, b / count];
+        maxShift = Math.max(maxShift, Math.hypot(updated[0] - centroid[0], updated[1] - centroid[1], updated[2] - centroid[2]));
+        centroids[cluster] = updated;
+      });
+
+      if (maxShift < CONVERGENCE_SHIFT) {
+        break;
+      }
+    }
+
+    return centroids;
+  }
+}
@@ -0,0 +1,65 @@
+// Dense network built by TensorFlowService.createModel, trained on the labelme samples
+import type { Tensor } from '@tensorflow/tfjs';
+import { OUTSIDE_ROI_PIXEL } from '../../utils/constants';
+import { computeBrightness, PIXEL_FEATURE_COUNT, writePixelFeatures } from './pixelFeatures';
+import { ClassifierContext, ClassifierOutput, ClassifierStrategy } from './types';
+
+// Pixels sent to the model per predict() call
+const INFERENCE_BATCH_SIZE = 65536;
+
+export class MlpClassifier implements ClassifierStrategy {
+  readonly name = 'mlp';
+  readonly label = 'Red neuronal (MLP)';
+  readonly modes: ClassifierStrategy['modes'] = ['binary'];
+  readonly thresholdMethods: ClassifierStrategy['thresholdMethods'] = [];
+  readonly usesModel = true;
+
+  async classify(imageData: ImageData, context: ClassifierContext): Promise<ClassifierOutput> {
+    const { model, roiMask } = context;
+    if (!model) {
+      throw new Error('MLP model is not trained yet');
+    }
+
+    const tf = await import('@tensorflow/tfjs');
+    const { width, height } = imageData;
+    const pixelCount = width * height;
+    const brightness = computeBrightness(imageData);
+    const predictions = new Uint8Array(pixelCount).fill(OUTSIDE_ROI_PIXEL);
+    const confidenceMap = new Uint8Array(pixelCount);
+    const batchPixels = new Int32Array(INFERENCE_BATCH_SIZE);
+    // Stored models may predate the vegetation index features
+    const featureCount = model.inputs[0].shape[1] ?? PIXEL_FEATURE_COUNT;
+    const batchFeatures = new Float32Array(INFERENCE_BATCH_SIZE * featureCount);
+
+    console.log(`🔍 Processing image: ${width}x${height} pixels with MLP`);
+
+    let pixel = 0;
+    while (pixel < pixelCount) {
+      // Next batch of pixels inside the ROI
+      let batchLength = 0;
+      for (; pixel < pixelCount && batchLength < INFERENCE_BATCH_SIZE; pixel++) {
+        if (roiMask && !roiMask[pixel]) continue;
+        writePixelFeatures(imageData, brightness, pixel, batchFeatures, batchLength * featureCount, featureCount);
+        batchPixels[batchLength++] = pixel;
+      }
+      if (batchLength === 0) break;
+
+      const probabilities = tf.tidy(() => {
+        const input = tf.tensor2d(batchFeatures.subarray(0, batchLength * featureCount), [batchLength, featureCount]);
+        return model.predict(input) as Tensor;
+      });
+      const values = await probabilities.data();
+      probabilities.dispose();
+
+      // Softmax units: 0 = light, 1 = shadow; confidence is the gap between both probabilities
+      for (let i = 0; i < batchLength; i++) {
+        const light = values[i * 2];
+        const shadow = values[i * 2 + 1];
+        predictions[batchPixels[i]] = shadow > light ? 1 : 0;
+        confidenceMap[batchPixels[i]] = Math.round(Math.abs(shadow - light) * 255);
+      }
+    }
+
+    return { classificationMap: predictions, confidenceMap };
+  }
+}
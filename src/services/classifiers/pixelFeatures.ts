@@ -0,0 +1,90 @@
+// Per-pixel input features of the MLP: RGB, brightness, local contrast, edge strength and the ExG and VARI
+// green-vegetation indices (all scaled to ~0-1)
+import { excessGreen, vari } from '../../utils/vegetationIndex';
+
+export const PIXEL_FEATURE_COUNT = 8;
+// Models stored before the vegetation indices were added take only the first six features
+export const LEGACY_PIXEL_FEATURE_COUNT = 6;
+
+// Largest Sobel response along one axis for 0-255 values
+const MAX_SOBEL = 4 * 255;
+
+/**
+ * Mean RGB of every pixel (0-255)
+ */
+export const computeBrightness = (imageData: ImageData): Float32Array => {
+  const { data } = imageData;
+  const brightness = new Float32Array(data.length / 4);
+  for (let i = 0; i < brightness.length; i++) {
+    brightness[i] = (data[i * 4] + data[i * 4 + 1] + data[i * 4 + 2]) / 3;
+  }
+  return brightness;
+};
+
+/**
+ * Write the features of one pixel into target[offset..offset + featureCount)
+ * Contrast is the standard deviation of the brightness in the 3x3 neighbourhood,
+ * edge strength the Sobel gradient magnitude; borders are clamped.
+ */
+export const writePixelFeatures = (
+  imageData: ImageData,
+  brightness: Float32Array,
+  pixel: number,
+  target: Float32Array,
+  offset: number,
+  featureCount: number = PIXEL_FEATURE_COUNT
+): void => {
+  const { data, width, height } = imageData;
+  const x = pixel % width;
+  const y = (pixel - x) / width;
+
+  const left = x > 0 ? x - 1 : x;
+  const right = x < width - 1 ? x + 1 : x;
+  const top = y > 0 ? y - 1 : y;
+  const bottom = y < height - 1 ? y + 1 : y;
+
+  const topLeft = brightness[top * width + left];
+  const topCenter = brightness[top * width + x];
+  const topRight = brightness[top * width + right];
+  const middleLeft = brightness[y * width + left];
+  const center = brightness[pixel];
+  const middleRight = brightness[y * width + right];
+  const bottomLeft = brightness[bottom * width + left];
+  const bottomCenter = brightness[bottom * width + x];
+  const bottomRight = brightness[bottom * width + right];
+
+  const sum = topLeft + topCenter + topRight + middleLeft + center + middleRight + bottomLeft + bottomCenter + bottomRight;
+  const sumOfSquares = topLeft * topLeft + topCenter * topCenter + topRight * topRight
+    + middleLeft * middleLeft + center * center + middleRight * middleRight
+    + bottomLeft * bottomLeft + bottomCenter * bottomCenter + bottomRight * bottomRight;
+  const mean = sum / 9;
+  const variance = Math.max(0, sumOfSquares / 9 - mean * mean);
+
+  const gx = (topRight + 2 * middleRight + bottomRight) - (topLeft + 2 * middleLeft + bottomLeft);
+  const gy = (bottomLeft + 2 * bottomCenter + bottomRight) - (topLeft + 2 * topCenter + topRight);
+
+  const r = data[pixel * 4];
+  const g = data[pixel * 4 + 1];
+  const b = data[pixel * 4 + 2];
+  target[offset] = r / 255;
+  target[offset + 1] = g / 255;
+  target[offset + 2] = b / 255;
+  target[offset + 3] = center / 255;
+  target[offset + 4] = Math.sqrt(variance) / 127.5;
+  target[offset + 5] = Math.min(1, Math.hypot(gx, gy) / MAX_SOBEL);
+  if (featureCount > LEGACY_PIXEL_FEATURE_COUNT) {
+    target[offset + 6] = (excessGreen(r, g, b) + 1) / 3;
+    target[offset + 7] = (vari(r, g, b) + 1) / 2;
+  }
+};
+
+/**
+ * Feature matrix (row-major, PIXEL_FEATURE_COUNT columns) of the given pixels
+ */
+export const extractPixelFeatures = (imageData: ImageData, pixels: ArrayLike<number>, brightness: Float32Array = computeBrightness(imageData)): Float32Array => {
+  const features = new Float32Array(pixels.length * PIXEL_FEATURE_COUNT);
+  for (let i = 0; i < pixels.length; i++) {
+    writePixelFeatures(imageData, brightness, pixels[i], features, i * PIXEL_FEATURE_COUNT);
+  }
+  return features;
+};
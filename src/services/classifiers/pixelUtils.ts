@@ -0,0 +1,227 @@
+// Pixel helpers shared by the classification strategies
+import { LuminanceModel } from '../../types';
+import { lightness, REC709_WEIGHTS, srgbToLinear } from '../../utils/colorSpace';
+import { OUTSIDE_ROI_PIXEL, SEGMENTATION_CLASSES } from '../../utils/constants';
+import { CalibrationProfile, ClassifierOutput, ThresholdFeature } from './types';
+
+// RGBA offset of the single-channel threshold features
+const CHANNEL_OFFSETS: Record<Exclude<ThresholdFeature, 'brightness'>, number> = { r: 0, g: 1, b: 2 };
+
+// Keys per unit of the weighted luminances: Rec.709 luma (0-255) and linear Y (0-1) for CIE L*
+const LUMA_KEY_SCALE = 256;
+const LINEAR_KEY_SCALE = 65535;
+
+// Distance from the threshold (0-255 feature scale) at which a pixel's confidence reaches its maximum
+export const THRESHOLD_CONFIDENCE_MARGIN = 32;
+
+type ChannelKeys = [Uint32Array, Uint32Array, Uint32Array];
+
+type ClassifierMaps = Pick<ClassifierOutput, 'classificationMap' | 'confidenceMap'>;
+
+export interface FeatureKeys {
+  channelKeys: ChannelKeys; // One lookup per channel
+  combine: 'sum' | 'max'; // Key = sum of the channel keys, or their maximum (HSV value)
+  values: Float64Array; // Feature value of every key, on the 0-255 threshold scale
+}
+
+// Index of the nearest class prototype (squared euclidean distance in RGB)
+export const nearestPrototype = (r: number, g: number, b: number, prototypes: [number, number, number][]): number => {
+  let classification = 0;
+  let bestDistance = Infinity;
+  for (let c = 0; c < prototypes.length; c++) {
+    const prototype = prototypes[c];
+    const dr = r - prototype[0];
+    const dg = g - prototype[1];
+    const db = b - prototype[2];
+    const distance = dr * dr + dg * dg + db * db;
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      classification = c;
+    }
+  }
+  return classification;
+};
+
+// Mean RGB per SEGMENTATION_CLASSES entry, from the calibration profile when available
+export const getPrototypes = (calibration: CalibrationProfile | null): [number, number, number][] => {
+  return SEGMENTATION_CLASSES.map(segmentationClass =>
+    calibration?.prototypes?.[segmentationClass.id] ?? segmentationClass.prototype
+  );
+};
+
+// Light/shadow group of each SEGMENTATION_CLASSES entry (0 = light, 1 = shadow, 2 = neither), for prototype confidence
+export const LIGHT_SHADOW_GROUPS = SEGMENTATION_CLASSES.map(segmentationClass =>
+  segmentationClass.light === null ? 2 : segmentationClass.light ? 0 : 1
+);
+
+const channelLookup = (key: (value: number) => number): Uint32Array => Uint32Array.from({ length: 256 }, (_, value) => key(value));
+
+/**
+ * Integer key of a pixel's threshold feature and the feature value of every key
+ * Keys combine per-channel lookups (sum, or max for the HSV value) so no luminance formula runs per pixel,
+ * e.g. brightness with the 'mean' luminance is keyed by r + g + b (0-765).
+ */
+export const thresholdFeatureKeys = (feature: ThresholdFeature, luminance: LuminanceModel = 'mean'): FeatureKeys => {
+  if (feature !== 'brightness') {
+    const none = new Uint32Array(256);
+    const channelKeys: ChannelKeys = [none, none, none];
+    channelKeys[CHANNEL_OFFSETS[feature]] = channelLookup(value => value);
+    return { channelKeys, combine: 'sum', values: Float64Array.from({ length: 256 }, (_, value) => value) };
+  }
+
+  const identity = channelLookup(value => value);
+
+  switch (luminance) {
+    case 'rec709':
+      return {
+        channelKeys: REC709_WEIGHTS.map(weight => channelLookup(value => Math.round(weight * value * LUMA_KEY_SCALE))) as ChannelKeys,
+        combine: 'sum',
+        values: Float64Array.from({ length: 255 * LUMA_KEY_SCALE + 2 }, (_, key) => Math.min(255, key / LUMA_KEY_SCALE))
+      };
+    case 'hsv':
+      return { channelKeys: [identity, identity, identity], combine: 'max', values: Float64Array.from({ length: 256 }, (_, value) => value) };
+    case 'lab':
+      return {
+        channelKeys: REC709_WEIGHTS.map(weight => channelLookup(value => Math.round(weight * srgbToLinear(value) * LINEAR_KEY_SCALE))) as ChannelKeys,
+        combine: 'sum',
+        values: Float64Array.from({ length: LINEAR_KEY_SCALE + 2 }, (_, key) => lightness(Math.min(1, key / LINEAR_KEY_SCALE)) * 2.55)
+      };
+    default:
+      return { channelKeys: [identity, identity, identity], combine: 'sum', values: Float64Array.from({ length: 766 }, (_, sum) => sum / 3) };
+  }
+};
+
+/**
+ * Add the threshold feature keys of the pixels inside the ROI to keyCounts (indexed like FeatureKeys.values)
+ * @param region Only count this rectangle of the image (default: the whole image)
+ */
+export const countFeatureKeys = (
+  imageData: ImageData,
+  roiMask: Uint8Array | null,
+  { channelKeys: [redKeys, greenKeys, blueKeys], combine }: FeatureKeys,
+  keyCounts: Uint32Array,
+  region: { left: number; top: number; width: number; height: number } = { left: 0, top: 0, width: imageData.width, height: imageData.height }
+): void => {
+  const { data, width } = imageData;
+  const useMax = combine === 'max';
+
+  for (let y = region.top; y < region.top + region.height; y++) {
+    for (let x = region.left, pixel = y * width + x; x < region.left + region.width; x++, pixel++) {
+      if (roiMask && roiMask[pixel] === 0) continue;
+      const pixelIndex = pixel * 4;
+      const red = redKeys[data[pixelIndex]];
+      const green = greenKeys[data[pixelIndex + 1]];
+      const blue = blueKeys[data[pixelIndex + 2]];
+      keyCounts[useMax ? Math.max(red, green, blue) : red + green + blue]++;
+    }
+  }
+};
+
+/**
+ * 256-bin histogram of the feature values (bin = floor of the value) from counts per key
+ */
+export const keyCountHistogram = (keyCounts: Uint32Array, values: Float64Array): number[] => {
+  const histogram = new Array(256).fill(0);
+  keyCounts.forEach((count, key) => {
+    histogram[Math.min(255, Math.floor(values[key]))] += count;
+  });
+  return histogram;
+};
+
+/**
+ * Binary map of "feature > threshold" (0 = light, 1 = shadow) for the pixels inside the ROI
+ * Confidence grows with the distance from the threshold, up to THRESHOLD_CONFIDENCE_MARGIN.
+ * Pixels outside the ROI get OUTSIDE_ROI_PIXEL.
+ */
+export const buildThresholdMap = (
+  imageData: ImageData,
+  roiMask: Uint8Array | null,
+  feature: ThresholdFeature,
+  threshold: number,
+  luminance: LuminanceModel = 'mean'
+): ClassifierMaps => {
+  const { data, width, height } = imageData;
+  const pixelCount = width * height;
+  const { channelKeys: [redKeys, greenKeys, blueKeys], combine, values } = thresholdFeatureKeys(feature, luminance);
+  const classByKey = values.map(value => value > threshold ? 0 : 1);
+  const confidenceByKey = Uint8Array.from(values, value => Math.min(255, Math.round((Math.abs(value - threshold) / THRESHOLD_CONFIDENCE_MARGIN) * 255)));
+  const classificationMap = new Uint8Array(pixelCount);
+  const confidenceMap = new Uint8Array(pixelCount);
+  const useMax = combine === 'max';
+
+  for (let pixel = 0, pixelIndex = 0; pixel < pixelCount; pixel++, pixelIndex += 4) {
+    if (roiMask && roiMask[pixel] === 0) {
+      classificationMap[pixel] = OUTSIDE_ROI_PIXEL;
+    } else {
+      const red = redKeys[data[pixelIndex]];
+      const green = greenKeys[data[pixelIndex + 1]];
+      const blue = blueKeys[data[pixelIndex + 2]];
+      const key = useMax ? Math.max(red, green, blue) : red + green + blue;
+      classificationMap[pixel] = classByKey[key];
+      confidenceMap[pixel] = confidenceByKey[key];
+    }
+  }
+
+  return { classificationMap, confidenceMap };
+};
+
+/**
+ * Map of the nearest prototype index for the pixels inside the ROI
+ * Confidence is the relative margin (d2 - d1) / (d2 + d1) between the nearest prototype and the nearest one
+ * of another group: 0 on the boundary between two groups, 1 on the prototype. Pixels outside the ROI get OUTSIDE_ROI_PIXEL.
+ * @param groups Group of each prototype (default: every prototype is its own group), e.g. LIGHT_SHADOW_GROUPS
+ */
+export const buildNearestPrototypeMap = (
+  imageData: ImageData,
+  roiMask: Uint8Array | null,
+  prototypes: [number, number, number][],
+  groups: number[] = prototypes.map((_, index) => index)
+): ClassifierMaps => {
+  const { data, width, height } = imageData;
+  const pixelCount = width * height;
+  const classificationMap = new Uint8Array(pixelCount);
+  const confidenceMap = new Uint8Array(pixelCount);
+  const groupDistances = new Float64Array(Math.max(...groups) + 1);
+
+  for (let pixel = 0, pixelIndex = 0; pixel < pixelCount; pixel++, pixelIndex += 4) {
+    if (roiMask && roiMask[pixel] === 0) {
+      classificationMap[pixel] = OUTSIDE_ROI_PIXEL;
+      continue;
+    }
+
+    const r = data[pixelIndex];
+    const g = data[pixelIndex + 1];
+    const b = data[pixelIndex + 2];
+    let classification = 0;
+    let bestDistance = Infinity;
+    groupDistances.fill(Infinity);
+    for (let c = 0; c < prototypes.length; c++) {
+      const prototype = prototypes[c];
+      const dr = r - prototype[0];
+      const dg = g - prototype[1];
+      const db = b - prototype[2];
+      const distance = dr * dr + dg * dg + db * db;
+      if (distance < groupDistances[groups[c]]) {
+        groupDistances[groups[c]] = distance;
+      }
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        classification = c;
+      }
+    }
+
+    let secondDistance = Infinity;
+    for (let group = 0; group < groupDistances.length; group++) {
+      if (group !== groups[classification] && groupDistances[group] < secondDistance) {
+        secondDistance = groupDistances[group];
+      }
+    }
+
+    const nearest = Math.sqrt(bestDistance);
+    const runnerUp = Math.sqrt(secondDistance);
+    classificationMap[pixel] = classification;
+    confidenceMap[pixel] = runnerUp === Infinity ? 255 : Math.round(((runnerUp - nearest) / (runnerUp + nearest || 1)) * 255);
+  }
+
+  return { classificationMap, confidenceMap };
+};
@@ -0,0 +1,63 @@
+// Contract shared by the pixel classification strategies
+import type { LayersModel } from '@tensorflow/tfjs';
+import { ClassificationMode, LuminanceModel, SegmentationClass, ThresholdMethod } from '../../types';
+
+// Pixel value compared against the threshold: luminance (see LuminanceModel) or a single color channel
+export type ThresholdFeature = 'brightness' | 'r' | 'g' | 'b';
+
+export interface CalibrationProfile {
+  name: string;
+  createdAt: string;
+  feature: ThresholdFeature;
+  threshold: number; // Pixels with feature > threshold are light
+  luminance?: LuminanceModel; // Definition of 'brightness' the threshold was fitted on (missing: 'mean')
+  agreement: number; // Share of labelled light/shadow pixels classified correctly (0-1)
+  prototypes?: Record<SegmentationClass, [number, number, number]>; // Multiclass mean RGB per class
+  images: string[]; // Annotated images used for the calibration
+  version?: string; // Set when the profile is stored in a model store
+}
+
+// Row-major class per pixel (index y * width + x):
+// binary 0 = light, 1 = shadow; multiclass index in SEGMENTATION_CLASSES; or EXCLUDED_PIXEL / OUTSIDE_ROI_PIXEL
+export type ClassificationMap = Uint8Array;
+
+// Row-major confidence of each pixel's class: 0 = on the decision boundary, 255 = certain
+export type ConfidenceMap = Uint8Array;
+
+export interface ClassifierContext {
+  mode: ClassificationMode;
+  thresholdMethod?: ThresholdMethod;
+  luminance?: LuminanceModel; // Definition of the 'brightness' threshold feature (default: 'mean')
+  feature?: ThresholdFeature; // Adaptive threshold feature instead of the calibration profile's (hemispherical photos: 'b')
+  calibration: CalibrationProfile | null;
+  model: LayersModel | null; // Trained MLP, null until trained
+  roiMask: Uint8Array | null; // 1 = inside the regions of interest, null = whole image
+  imageFit?: ImageFit; // Tiled mode: parameters fitted once on the whole image, shared by every tile
+}
+
+// Image-level parameters fitted by ClassifierStrategy.fitImage
+export interface ImageFit {
+  threshold?: number;
+  centroids?: [number, number, number][];
+}
+
+export interface ClassifierOutput {
+  classificationMap: ClassificationMap; // OUTSIDE_ROI_PIXEL outside the ROI
+  confidenceMap: ConfidenceMap; // Same layout as classificationMap, 0 outside the ROI
+  threshold?: number;
+  thresholdMethod?: ThresholdMethod;
+}
+
+export interface ClassifierStrategy {
+  readonly name: string; // Registry key, sent as the `classifier` parameter
+  readonly label: string; // Shown in the UI
+  readonly modes: ClassificationMode[]; // Supported classification modes
+  readonly thresholdMethods: ThresholdMethod[]; // Threshold methods the strategy can apply (empty = no threshold)
+  readonly usesModel: boolean; // true = results depend on the trained model, false = on the calibration profile
+  classify(imageData: ImageData, context: ClassifierContext): Promise<ClassifierOutput>;
+  /**
+   * Fit the parameters that depend on the whole image (threshold, centroids) on a downscaled overview,
+   * so the tiles of a large image are classified consistently. Omitted by per-pixel strategies.
+   */
+  fitImage?(overview: ImageData, context: ClassifierContext): Promise<ImageFit>;
+}
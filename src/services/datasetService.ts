@@ -0,0 +1,219 @@
+// Server-side loader for the labelme annotations in dataset/anotaciones
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createCanvas, loadImage } from 'canvas';
+import { SegmentationClass } from '../types';
+import { SEGMENTATION_CLASSES } from '../utils/constants';
+import { Point, rasterizePolygon } from '../utils/polygon';
+
+export interface LabelmeShape {
+  label: string;
+  points: Point[];
+  group_id: number | null;
+  description?: string;
+  shape_type: string; // 'polygon' | 'rectangle' | 'circle' | 'line' | 'point' | 'linestrip'
+  flags: Record<string, boolean>;
+  mask?: string | null;
+}
+
+export interface LabelmeAnnotation {
+  version: string;
+  flags: Record<string, boolean>;
+  shapes: LabelmeShape[];
+  imagePath: string;
+  imageData: string | null; // Base64 encoded image (optional in labelme)
+  imageHeight: number;
+  imageWidth: number;
+}
+
+export interface AnnotatedImage {
+  name: string;
+  annotationPath: string;
+  width: number;
+  height: number;
+  imageData: ImageData;
+  labelMask: Uint8Array; // Index in SEGMENTATION_CLASSES per pixel, UNLABELLED_PIXEL where no polygon
+  classMasks: Record<SegmentationClass, Uint8Array>; // 1 = pixel belongs to the class
+  classPixelCounts: Record<SegmentationClass, number>;
+}
+
+// Value of labelMask for pixels not covered by any polygon
+export const UNLABELLED_PIXEL = 255;
+
+const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp'];
+
+class DatasetService {
+  private datasetDir = process.env.DATASET_DIR || path.join(process.cwd(), 'dataset');
+  private cache: AnnotatedImage[] | null = null;
+
+  /**
+   * Read and validate a labelme JSON file
+   */
+  async loadAnnotation(annotationPath: string): Promise<LabelmeAnnotation> {
+    const content = await fs.readFile(annotationPath, 'utf-8');
+    const annotation = JSON.parse(content) as LabelmeAnnotation;
+
+    if (!Array.isArray(annotation.shapes) || !annotation.imageWidth || !annotation.imageHeight) {
+      throw new Error(`Invalid labelme annotation: ${annotationPath}`);
+    }
+
+    return annotation;
+  }
+
+  /**
+   * Decode the annotated image: embedded imageData first, then imagePath,
+   * then an image with the same name as the annotation in dataset/imagenes
+   */
+  async decodeImage(annotation: LabelmeAnnotation, annotationPath: string): Promise<ImageData> {
+    let source: Buffer | null = null;
+
+    if (annotation.imageData) {
+      source = Buffer.from(annotation.imageData, 'base64');
+    } else {
+      const candidates = [
+        path.resolve(path.dirname(annotationPath), annotation.imagePath),
+        ...IMAGE_EXTENSIONS.map(extension => path.join(
+          this.datasetDir,
+          'imagenes',
+          path.basename(annotationPath, '.json') + extension
+        ))
+      ];
+
+      for (const candidate of candidates) {
+        try {
+          source = await fs.readFile(candidate);
+          break;
+        } catch {
+          // Try next candidate
+        }
+      }
+    }
+
+    if (!source) {
+      throw new Error(`Image not found for annotation: ${annotationPath}`);
+    }
+
+    const img = await loadImage(source);
+    const canvas = createCanvas(img.width, img.height);
+    const ctx = canvas.getContext('2d');
+    ctx.drawImage(img, 0, 0);
+
+    return ctx.getImageData(0, 0, img.width, img.height) as unknown as ImageData;
+  }
+
+  /**
+   * Rasterize every shape into a label mask and one binary mask per class
+   * Shapes are painted in file order, so later shapes win where they overlap (as in labelme).
+   */
+  rasterize(annotation: LabelmeAnnotation, width: number, height: number): Pick<AnnotatedImage, 'labelMask' | 'classMasks' | 'classPixelCounts'> {
+    const labelMask = new Uint8Array(width * height).fill(UNLABELLED_PIXEL);
+    const scaleX = width / annotation.imageWidth;
+    const scaleY = height / annotation.imageHeight;
+
+    for (const shape of annotation.shapes) {
+      const classIndex = SEGMENTATION_CLASSES.findIndex(segmentationClass => segmentationClass.id === shape.label);
+      if (classIndex === -1) {
+        console.warn(`⚠️ Unknown label "${shape.label}" skipped`);
+        continue;
+      }
+
+      const polygon = this.shapeToPolygon(shape);
+      if (!polygon) {
+        console.warn(`⚠️ Shape type "${shape.shape_type}" not supported, skipped`);
+        continue;
+      }
+
+      rasterizePolygon(
+        polygon.map(([x, y]) => [x * scaleX, y * scaleY] as Point),
+        width,
+        height,
+        labelMask,
+        classIndex
+      );
+    }
+
+    const classMasks = {} as Record<SegmentationClass, Uint8Array>;
+    const classPixelCounts = {} as Record<SegmentationClass, number>;
+    SEGMENTATION_CLASSES.forEach(segmentationClass => {
+      classMasks[segmentationClass.id] = new Uint8Array(width * height);
+      classPixelCounts[segmentationClass.id] = 0;
+    });
+
+    for (let i = 0; i < labelMask.length; i++) {
+      const classIndex = labelMask[i];
+      if (classIndex !== UNLABELLED_PIXEL) {
+        const classId = SEGMENTATION_CLASSES[classIndex].id;
+        classMasks[classId][i] = 1;
+        classPixelCounts[classId]++;
+      }
+    }
+
+    return { labelMask, classMasks, classPixelCounts };
+  }
+
+  /**
+   * Load one annotation with its decoded image and masks
+   */
+  async loadAnnotatedImage(annotationPath: string): Promise<AnnotatedImage> {
+    const annotation = await this.loadAnnotation(annotationPath);
+    const imageData = await this.decodeImage(annotation, annotationPath);
+    const masks = this.rasterize(annotation, imageData.width, imageData.height);
+
+    return {
+      name: path.basename(annotationPath, '.json'),
+      annotationPath,
+      width: imageData.width,
+      height: imageData.height,
+      imageData,
+      ...masks
+    };
+  }
+
+  /**
+   * Load every annotation in dataset/anotaciones (cached after the first call)
+   */
+  async loadDataset(forceReload = false): Promise<AnnotatedImage[]> {
+    if (this.cache && !forceReload) {
+      return this.cache;
+    }
+
+    const annotationsDir = path.join(this.datasetDir, 'anotaciones');
+    const files = (await fs.readdir(annotationsDir))
+      .filter(file => file.endsWith('.json'))
+      .sort();
+
+    console.log(`📂 Loading ${files.length} annotations from ${annotationsDir}`);
+
+    const dataset: AnnotatedImage[] = [];
+    for (const file of files) {
+      dataset.push(await this.loadAnnotatedImage(path.join(annotationsDir, file)));
+    }
+
+    this.cache = dataset;
+    return dataset;
+  }
+
+  private shapeToPolygon(shape: LabelmeShape): Point[] | null {
+    switch (shape.shape_type) {
+      case 'polygon':
+        return shape.points;
+      case 'rectangle': {
+        const [[x1, y1], [x2, y2]] = shape.points;
+        return [[x1, y1], [x2, y1], [x2, y2], [x1, y2]];
+      }
+      case 'circle': {
+        // labelme stores the center and one point on the circumference
+        const [[cx, cy], [px, py]] = shape.points;
+        const radius = Math.hypot(px - cx, py - cy);
+        return Array.from({ length: 64 }, (_, i) => {
+          const angle = (i / 64) * 2 * Math.PI;
+          return [cx + radius * Math.cos(angle), cy + radius * Math.sin(angle)] as Point;
+        });
+      }
+      default:
+        return null;
+    }
+  }
+}
+
+export const datasetService = new DatasetService();
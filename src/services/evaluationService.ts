@@ -0,0 +1,189 @@
+// Accuracy evaluation of the pixel classifier against the labelme ground truth
+import { ClassificationMode } from '../types';
+import { BINARY_CLASSES, SEGMENTATION_CLASSES } from '../utils/constants';
+import { AnnotatedImage, datasetService, UNLABELLED_PIXEL } from './datasetService';
+import { ClassificationMap, ClassificationOptions, TensorFlowService } from './tensorflowService';
+
+export interface ClassMetrics {
+  className: string;
+  iou: number;
+  precision: number;
+  recall: number;
+  support: number; // Ground-truth pixels of the class
+}
+
+export interface ConfusionMetrics {
+  classes: string[];
+  confusionMatrix: number[][]; // [groundTruth][predicted]
+  perClass: ClassMetrics[];
+  accuracy: number;
+  meanIoU: number;
+  scoredPixels: number;
+}
+
+export interface ImageEvaluation extends ConfusionMetrics {
+  name: string;
+  expectedLightPercentage: number; // Light share of the labelled light/shadow pixels
+  predictedLightPercentage: number; // Light share predicted on those same pixels
+  lightPercentageError: number; // predicted - expected, in percentage points
+}
+
+export interface EvaluationReport extends ConfusionMetrics {
+  mode: ClassificationMode;
+  images: ImageEvaluation[];
+  lightPercentageError: {
+    mean: number;
+    meanAbsolute: number;
+  };
+  evaluatedAt: string;
+}
+
+class EvaluationService {
+  /**
+   * Classify every annotated image and score it against the rasterized masks
+   * In binary mode the *_LUZ classes count as light, *_SOMBRA as shadow and TRONCO is not scored.
+   */
+  async evaluate(tensorFlowService: TensorFlowService, options: ClassificationOptions = {}): Promise<EvaluationReport> {
+    const mode: ClassificationMode = options.mode || 'binary';
+    const classes = mode === 'multiclass'
+      ? SEGMENTATION_CLASSES.map(segmentationClass => segmentationClass.id)
+      : BINARY_CLASSES.map(binaryClass => binaryClass.label);
+    const dataset = await datasetService.loadDataset();
+
+    if (dataset.length === 0) {
+      throw new Error('No annotated images found in the dataset');
+    }
+
+    console.log(`📏 Evaluating ${mode} classifier on ${dataset.length} annotated images`);
+
+    const images: ImageEvaluation[] = [];
+    const totalConfusion = classes.map(() => new Array(classes.length).fill(0));
+
+    for (const annotatedImage of dataset) {
+      const result = await tensorFlowService.classifyImagePixels(annotatedImage.imageData, { ...options, mode });
+      const confusionMatrix = this.buildConfusionMatrix(annotatedImage, result.classificationMap, mode, classes.length);
+
+      confusionMatrix.forEach((row, groundTruth) => row.forEach((count, predicted) => {
+        totalConfusion[groundTruth][predicted] += count;
+      }));
+
+      const expectedLightPercentage = this.lightShare(confusionMatrix, mode, 'groundTruth');
+      const predictedLightPercentage = this.lightShare(confusionMatrix, mode, 'predicted');
+
+      images.push({
+        name: annotatedImage.name,
+        ...this.computeMetrics(classes, confusionMatrix),
+        expectedLightPercentage,
+        predictedLightPercentage,
+        lightPercentageError: predictedLightPercentage - expectedLightPercentage
+      });
+    }
+
+    const errors = images.map(image => image.lightPercentageError);
+
+    return {
+      mode,
+      ...this.computeMetrics(classes, totalConfusion),
+      images,
+      lightPercentageError: {
+        mean: errors.reduce((sum, error) => sum + error, 0) / errors.length,
+        meanAbsolute: errors.reduce((sum, error) => sum + Math.abs(error), 0) / errors.length
+      },
+      evaluatedAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Count [groundTruth][predicted] pixels; unlabelled pixels are ignored
+   */
+  private buildConfusionMatrix(
+    annotatedImage: AnnotatedImage,
+    classificationMap: ClassificationMap,
+    mode: ClassificationMode,
+    classCount: number
+  ): number[][] {
+    const { labelMask } = annotatedImage;
+    const confusionMatrix = Array.from({ length: classCount }, () => new Array(classCount).fill(0));
+
+    for (let pixel = 0; pixel < labelMask.length; pixel++) {
+      const label = labelMask[pixel];
+      if (label === UNLABELLED_PIXEL) continue;
+
+      const groundTruth = mode === 'multiclass' ? label : this.toBinaryClass(label);
+      const predicted = classificationMap[pixel];
+      if (groundTruth === null || predicted >= classCount) continue;
+
+      confusionMatrix[groundTruth][predicted]++;
+    }
+
+    return confusionMatrix;
+  }
+
+  // Segmentation class index -> binary class (0 = light, 1 = shadow, null = not scored)
+  private toBinaryClass(label: number): number | null {
+    const light = SEGMENTATION_CLASSES[label]?.light;
+    if (light === true) return 0;
+    if (light === false) return 1;
+    return null;
+  }
+
+  /**
+   * Light share (%) over the light/shadow pixels, by ground-truth rows or predicted columns
+   */
+  private lightShare(confusionMatrix: number[][], mode: ClassificationMode, axis: 'groundTruth' | 'predicted'): number {
+    const isLight = (index: number) => mode === 'multiclass' ? SEGMENTATION_CLASSES[index].light : index === 0;
+    let light = 0;
+    let total = 0;
+
+    confusionMatrix.forEach((row, groundTruth) => row.forEach((count, predicted) => {
+      const index = axis === 'groundTruth' ? groundTruth : predicted;
+      const lightClass = isLight(index);
+      if (lightClass === null || lightClass === undefined) return;
+      // In multiclass mode only pixels that are light/shadow on both axes are compared
+      if (mode === 'multiclass') {
+        const otherIndex = axis === 'groundTruth' ? predicted : groundTruth;
+        if (SEGMENTATION_CLASSES[otherIndex].light === null) return;
+      }
+      total += count;
+      if (lightClass) light += count;
+    }));
+
+    return total > 0 ? (light / total) * 100 : 0;
+  }
+
+  private computeMetrics(classes: string[], confusionMatrix: number[][]): ConfusionMetrics {
+    const scoredPixels = confusionMatrix.reduce((sum, row) => sum + row.reduce((rowSum, count) => rowSum + count, 0), 0);
+    let correct = 0;
+
+    const perClass = classes.map((className, index) => {
+      const truePositives = confusionMatrix[index][index];
+      const support = confusionMatrix[index].reduce((sum, count) => sum + count, 0);
+      const predictedCount = confusionMatrix.reduce((sum, row) => sum + row[index], 0);
+      const union = support + predictedCount - truePositives;
+      correct += truePositives;
+
+      return {
+        className,
+        iou: union > 0 ? truePositives / union : 0,
+        precision: predictedCount > 0 ? truePositives / predictedCount : 0,
+        recall: support > 0 ? truePositives / support : 0,
+        support
+      };
+    });
+
+    const scoredClasses = perClass.filter(metrics => metrics.support > 0);
+
+    return {
+      classes,
+      confusionMatrix,
+      perClass,
+      accuracy: scoredPixels > 0 ? correct / scoredPixels : 0,
+      meanIoU: scoredClasses.length > 0
+        ? scoredClasses.reduce((sum, metrics) => sum + metrics.iou, 0) / scoredClasses.length
+        : 0,
+      scoredPixels
+    };
+  }
+}
+
+export const evaluationService = new EvaluationService();
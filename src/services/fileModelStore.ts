@@ -0,0 +1,150 @@
+// Server-side model store: <MODEL_DIR>/mlp/<version>/{model.json,weights.bin}
+// and <MODEL_DIR>/calibration/<name>/<version>.json
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { io } from '@tensorflow/tfjs';
+import { CalibrationProfile } from './classifiers';
+import {
+  calibrationVersion,
+  createVersionId,
+  isVersionId,
+  joinWeightData,
+  ModelKind,
+  ModelStore,
+  ModelVersion,
+  PROFILE_NAME_PATTERN,
+  StoredModel
+} from './modelStore';
+
+interface ModelFile {
+  version: ModelVersion;
+  modelTopology: io.ModelArtifacts['modelTopology'];
+  weightSpecs: io.ModelArtifacts['weightSpecs'];
+}
+
+const isNotFound = (error: unknown) => (error as NodeJS.ErrnoException).code === 'ENOENT';
+
+class FileModelStore implements ModelStore {
+  private modelDir = process.env.MODEL_DIR || path.join(process.cwd(), 'models');
+
+  async saveModel(artifacts: io.ModelArtifacts, metrics: Record<string, number>, createdAt: string): Promise<ModelVersion> {
+    const version: ModelVersion = { id: createVersionId(), kind: 'mlp', name: 'mlp', createdAt, metrics };
+    const versionDir = path.join(this.modelDir, 'mlp', version.id);
+    await fs.mkdir(versionDir, { recursive: true });
+
+    const modelFile: ModelFile = { version, modelTopology: artifacts.modelTopology, weightSpecs: artifacts.weightSpecs };
+    await fs.writeFile(path.join(versionDir, 'weights.bin'), Buffer.from(joinWeightData(artifacts.weightData)));
+    await fs.writeFile(path.join(versionDir, 'model.json'), JSON.stringify(modelFile, null, 2), 'utf-8');
+
+    console.log(`💾 Model saved: ${versionDir}`);
+    return version;
+  }
+
+  async loadModel(versionId?: string): Promise<StoredModel | null> {
+    const mlpDir = path.join(this.modelDir, 'mlp');
+    const id = versionId ?? (await this.listVersionIds(mlpDir)).pop();
+    if (!id) return null;
+    this.validateVersionId(id);
+
+    try {
+      const modelFile = JSON.parse(await fs.readFile(path.join(mlpDir, id, 'model.json'), 'utf-8')) as ModelFile;
+      const weights = await fs.readFile(path.join(mlpDir, id, 'weights.bin'));
+
+      return {
+        version: modelFile.version,
+        artifacts: {
+          modelTopology: modelFile.modelTopology,
+          weightSpecs: modelFile.weightSpecs,
+          weightData: weights.buffer.slice(weights.byteOffset, weights.byteOffset + weights.byteLength) as ArrayBuffer
+        }
+      };
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async saveCalibration(profile: CalibrationProfile): Promise<ModelVersion> {
+    this.validateName(profile.name);
+    const profileDir = path.join(this.modelDir, 'calibration', profile.name);
+    await fs.mkdir(profileDir, { recursive: true });
+
+    const version = createVersionId();
+    profile.version = version;
+    const profilePath = path.join(profileDir, `${version}.json`);
+    await fs.writeFile(profilePath, JSON.stringify(profile, null, 2), 'utf-8');
+
+    console.log(`💾 Calibration profile saved: ${profilePath}`);
+    return calibrationVersion({ ...profile, version });
+  }
+
+  async loadCalibration(name: string, versionId?: string): Promise<CalibrationProfile | null> {
+    this.validateName(name);
+    const profileDir = path.join(this.modelDir, 'calibration', name);
+    const id = versionId ?? (await this.listVersionIds(profileDir, '.json')).pop();
+    if (!id) return null;
+    this.validateVersionId(id);
+
+    try {
+      return JSON.parse(await fs.readFile(path.join(profileDir, `${id}.json`), 'utf-8')) as CalibrationProfile;
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async listVersions(kind: ModelKind): Promise<ModelVersion[]> {
+    const versions: ModelVersion[] = [];
+
+    if (kind === 'mlp') {
+      for (const id of await this.listVersionIds(path.join(this.modelDir, 'mlp'))) {
+        const stored = await this.loadModel(id);
+        if (stored) versions.push(stored.version);
+      }
+    } else {
+      const names = await this.listEntries(path.join(this.modelDir, 'calibration'));
+      for (const name of names.filter(entry => PROFILE_NAME_PATTERN.test(entry))) {
+        for (const id of await this.listVersionIds(path.join(this.modelDir, 'calibration', name), '.json')) {
+          const profile = await this.loadCalibration(name, id);
+          if (profile) versions.push(calibrationVersion({ ...profile, version: id }));
+        }
+      }
+    }
+
+    return versions.sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  /**
+   * Version ids stored in a directory, oldest first
+   */
+  private async listVersionIds(dir: string, extension: string = ''): Promise<string[]> {
+    return (await this.listEntries(dir))
+      .filter(entry => entry.endsWith(extension))
+      .map(entry => entry.slice(0, entry.length - extension.length))
+      .filter(isVersionId)
+      .sort();
+  }
+
+  private async listEntries(dir: string): Promise<string[]> {
+    try {
+      return await fs.readdir(dir);
+    } catch (error) {
+      if (isNotFound(error)) return [];
+      throw error;
+    }
+  }
+
+  private validateName(name: string): void {
+    if (!PROFILE_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid calibration profile name: "${name}"`);
+    }
+  }
+
+  private validateVersionId(id: string): void {
+    if (!isVersionId(id)) {
+      throw new Error(`Invalid model version: "${id}"`);
+    }
+  }
+}
+
+export const fileModelStore = new FileModelStore();
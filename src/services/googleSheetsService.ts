@@ -1,4 +1,6 @@
 import { google } from 'googleapis';
+import { HemisphericalSummary, LightGridSummary, LightPatchesSummary, SolarPositionSummary } from '../types';
+import { normalizeLightPercentage } from '../utils/solarPosition';
 
 export interface GoogleSheetsConfig {
   spreadsheetId: string;
@@ -35,8 +37,36 @@ export interface ProcessingRecord {
   software: string;
   direccion: string;
   timestamp: string;
+  clasificador: string;
+  version_modelo: string; // MLP version for the 'mlp' classifier, calibration profile version otherwise
+  umbral: number | null;
+  hash_parametros: string; // Rows with the same hash are comparable
+  cuadricula_luz: LightGridSummary | null; // Stored as JSON, only when a grid was requested
+  elevacion_solar: number | null; // Sun elevation/azimuth (degrees) when the photo was taken, when GPS and EXIF time are known
+  azimut_solar: number | null;
+  parches_luz: LightPatchesSummary | null; // Stored as JSON
+  lai_efectivo: number | null; // Hemispherical photos only
+  hemisferica: HemisphericalSummary | null; // Stored as JSON, hemispherical photos only
+  indice_luz_normalizado: number | null; // Derived from porcentaje_luz and elevacion_solar, not stored (null for hemispherical photos)
 }
 
+// JSON column value back to its structure (null when empty, not valid JSON or missing the required array)
+const parseJsonColumn = <T>(value: string | undefined, arrayField: string): T | null => {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed?.[arrayField]) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+// Numbers of a structure stored as JSON, rounded to the given decimals to keep the cell short
+const toRoundedJson = (value: unknown, decimals: number): string => {
+  const factor = 10 ** decimals;
+  return JSON.stringify(value, (_, field) => typeof field === 'number' ? Math.round(field * factor) / factor : field);
+};
+
 class GoogleSheetsService {
   private auth: unknown = null;
   private sheets: ReturnType<typeof google.sheets> | null = null;
@@ -257,8 +287,11 @@ class GoogleSheetsService {
       }
 
       // Obtener historial de la hoja principal (últimas 500 filas, solo columnas necesarias)
-      // Columnas: A=ID, B=Fecha, C=Hora, D=Imagen, E=Nombre Archivo, F=Empresa, G=Fundo, H=Sector, I=Lote, J=Hilera, K=Planta, L=Lat, M=Lng, N=Luz%, O=Sombra%, P=Dispositivo, Q=Software, R=Dirección, S=Timestamp, T=ArchivoID
-      const range = `${this.config.sheetName}!A2:T500`;
+      // Columnas: A=ID, B=Fecha, C=Hora, D=Imagen, E=Nombre Archivo, F=Empresa, G=Fundo, H=Sector, I=Lote, J=Hilera, K=Planta, L=Lat, M=Lng, N=Luz%, O=Sombra%, P=Dispositivo, Q=Software, R=Dirección, S=Timestamp, T=ArchivoID,
+      // U=Clasificador, V=Versión modelo/calibración, W=Umbral, X=Hash parámetros, Y=Cuadrícula de luz (JSON),
+      // Z=Elevación solar, AA=Azimut solar, AB=Parches de luz (JSON), AC=LAI efectivo, AD=Hemisférica (JSON)
+      // (vacías en filas anteriores)
+      const range = `${this.config.sheetName}!A2:AD500`;
       if (!this.sheets) {
         throw new Error('Sheets service not initialized');
       }
@@ -279,6 +312,10 @@ class GoogleSheetsService {
 
       for (const row of values) {
         if (row.length >= 15) {
+          const porcentajeLuz = row[13] ? parseFloat(row[13]) : 0;
+          const elevacionSolar = row[25] ? parseFloat(row[25]) : null;
+          const hemisferica = parseJsonColumn<HemisphericalSummary>(row[29], 'anillos');
+          const indiceLuz = elevacionSolar !== null && !hemisferica ? normalizeLightPercentage(porcentajeLuz, elevacionSolar) : null;
           const record: ProcessingRecord = {
             id: row[0] || '',
             fecha: row[1] || '',
@@ -293,12 +330,23 @@ class GoogleSheetsService {
             numero_planta: row[10] || '',
             latitud: row[11] ? parseFloat(row[11]) : null,
             longitud: row[12] ? parseFloat(row[12]) : null,
-            porcentaje_luz: row[13] ? parseFloat(row[13]) : 0,
+            porcentaje_luz: porcentajeLuz,
             porcentaje_sombra: row[14] ? parseFloat(row[14]) : 0,
             dispositivo: row[15] || '',
             software: row[16] || '',
             direccion: row[17] || '',
-            timestamp: row[18] || ''
+            timestamp: row[18] || '',
+            clasificador: row[20] || '',
+            version_modelo: row[21] || '',
+            umbral: row[22] ? parseFloat(row[22]) : null,
+            hash_parametros: row[23] || '',
+            cuadricula_luz: parseJsonColumn<LightGridSummary>(row[24], 'celdas'),
+            elevacion_solar: elevacionSolar,
+            azimut_solar: row[26] ? parseFloat(row[26]) : null,
+            parches_luz: parseJsonColumn<LightPatchesSummary>(row[27], 'distribucion'),
+            lai_efectivo: row[28] ? parseFloat(row[28]) : null,
+            hemisferica,
+            indice_luz_normalizado: indiceLuz !== null ? parseFloat(indiceLuz.toFixed(2)) : null
           };
           historial.push(record);
         }
@@ -336,6 +384,15 @@ class GoogleSheetsService {
     processed_image: string;
     timestamp: string;
     exifDateTime?: { date: string; time: string } | null;
+    clasificador?: string;
+    modelo_version?: string;
+    calibracion_version?: string;
+    umbral?: number;
+    hash_parametros?: string;
+    cuadricula_luz?: LightGridSummary;
+    parches_luz?: LightPatchesSummary;
+    hemisferica?: HemisphericalSummary;
+    posicion_solar?: SolarPositionSummary;
   }): Promise<void> {
     try {
       if (!this.config || this.config.spreadsheetId === 'demo') {
@@ -387,11 +444,21 @@ class GoogleSheetsService {
              'Next.js + TensorFlow.js',
              '', // direccion
              timestamp,
-             id // ArchivoID - our unique identifier
+             id, // ArchivoID - our unique identifier
+             result.clasificador || '',
+             result.modelo_version || result.calibracion_version || '',
+             result.umbral ?? '',
+             result.hash_parametros || '',
+             result.cuadricula_luz ? toRoundedJson(result.cuadricula_luz, 1) : '',
+             result.posicion_solar ? parseFloat(result.posicion_solar.elevacion.toFixed(2)) : '',
+             result.posicion_solar ? parseFloat(result.posicion_solar.azimut.toFixed(2)) : '',
+             result.parches_luz ? toRoundedJson(result.parches_luz, 3) : '',
+             result.hemisferica?.lai_efectivo != null ? parseFloat(result.hemisferica.lai_efectivo.toFixed(3)) : '',
+             result.hemisferica ? toRoundedJson(result.hemisferica, 3) : ''
            ];
 
       // Append to Google Sheets
-      const range = `${this.config.sheetName}!A:T`;
+      const range = `${this.config.sheetName}!A:AD`;
       await this.sheets.spreadsheets.values.append({
         spreadsheetId: this.config.spreadsheetId,
         range: range,
@@ -519,7 +586,18 @@ class GoogleSheetsService {
           dispositivo: 'iPhone 12',
           software: 'Camera',
           direccion: 'Lima, Perú',
-          timestamp: '2024-01-15T10:30:00Z'
+          timestamp: '2024-01-15T10:30:00Z',
+          clasificador: 'heuristic',
+          version_modelo: '',
+          umbral: 130,
+          hash_parametros: '',
+          cuadricula_luz: null,
+          elevacion_solar: null,
+          azimut_solar: null,
+          indice_luz_normalizado: null,
+          parches_luz: null,
+          lai_efectivo: null,
+          hemisferica: null
         },
         {
           id: '2',
@@ -540,7 +618,18 @@ class GoogleSheetsService {
           dispositivo: 'Samsung Galaxy',
           software: 'Open Camera',
           direccion: 'Lima, Perú',
-          timestamp: '2024-01-15T11:45:00Z'
+          timestamp: '2024-01-15T11:45:00Z',
+          clasificador: 'heuristic',
+          version_modelo: '',
+          umbral: 130,
+          hash_parametros: '',
+          cuadricula_luz: null,
+          elevacion_solar: null,
+          azimut_solar: null,
+          indice_luz_normalizado: null,
+          parches_luz: null,
+          lai_efectivo: null,
+          hemisferica: null
         }
       ]
     };
@@ -0,0 +1,142 @@
+// Browser model store backed by IndexedDB
+import type { io } from '@tensorflow/tfjs';
+import { CalibrationProfile } from './classifiers';
+import {
+  calibrationVersion,
+  createVersionId,
+  joinWeightData,
+  ModelKind,
+  ModelStore,
+  ModelVersion,
+  StoredModel
+} from './modelStore';
+
+const DB_NAME = 'luz-sombra-models';
+const DB_VERSION = 1;
+const MODELS_STORE = 'models'; // StoredModel, keyed by version.id
+const CALIBRATIONS_STORE = 'calibrations'; // CalibrationProfile, keyed by version
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+class IndexedDbModelStore implements ModelStore {
+  private databasePromise: Promise<IDBDatabase> | null = null;
+
+  async saveModel(artifacts: io.ModelArtifacts, metrics: Record<string, number>, createdAt: string): Promise<ModelVersion> {
+    const version: ModelVersion = { id: createVersionId(), kind: 'mlp', name: 'mlp', createdAt, metrics };
+    await this.importModel({ version, artifacts });
+    return version;
+  }
+
+  /**
+   * Store a model keeping its version (e.g. downloaded from the server)
+   */
+  async importModel(stored: StoredModel): Promise<void> {
+    const record: StoredModel = {
+      version: stored.version,
+      artifacts: {
+        modelTopology: stored.artifacts.modelTopology,
+        weightSpecs: stored.artifacts.weightSpecs,
+        weightData: joinWeightData(stored.artifacts.weightData)
+      }
+    };
+    await requestToPromise((await this.getStore(MODELS_STORE, 'readwrite')).put(record));
+    console.log(`💾 Model ${stored.version.id} saved to IndexedDB`);
+  }
+
+  async loadModel(versionId?: string): Promise<StoredModel | null> {
+    const store = await this.getStore(MODELS_STORE, 'readonly');
+    if (versionId) {
+      return (await requestToPromise(store.get(versionId)) as StoredModel | undefined) ?? null;
+    }
+
+    const models = await requestToPromise(store.getAll()) as StoredModel[];
+    return models.sort((a, b) => a.version.id.localeCompare(b.version.id)).pop() ?? null;
+  }
+
+  async saveCalibration(profile: CalibrationProfile): Promise<ModelVersion> {
+    profile.version = createVersionId();
+    await this.importCalibration(profile);
+    return calibrationVersion({ ...profile, version: profile.version });
+  }
+
+  /**
+   * Store a calibration profile keeping its version (e.g. downloaded from the server)
+   */
+  async importCalibration(profile: CalibrationProfile): Promise<void> {
+    if (!profile.version) {
+      throw new Error(`Calibration profile "${profile.name}" has no version`);
+    }
+    await requestToPromise((await this.getStore(CALIBRATIONS_STORE, 'readwrite')).put(profile));
+    console.log(`💾 Calibration profile ${profile.name} (${profile.version}) saved to IndexedDB`);
+  }
+
+  async loadCalibration(name: string, versionId?: string): Promise<CalibrationProfile | null> {
+    const store = await this.getStore(CALIBRATIONS_STORE, 'readonly');
+    if (versionId) {
+      const profile = await requestToPromise(store.get(versionId)) as CalibrationProfile | undefined;
+      return profile && profile.name === name ? profile : null;
+    }
+
+    const profiles = await requestToPromise(store.getAll()) as CalibrationProfile[];
+    return profiles
+      .filter(profile => profile.name === name)
+      .sort((a, b) => (a.version ?? '').localeCompare(b.version ?? ''))
+      .pop() ?? null;
+  }
+
+  async listVersions(kind: ModelKind): Promise<ModelVersion[]> {
+    if (kind === 'mlp') {
+      const models = await requestToPromise((await this.getStore(MODELS_STORE, 'readonly')).getAll()) as StoredModel[];
+      return models.map(model => model.version).sort((a, b) => a.id.localeCompare(b.id));
+    }
+
+    const profiles = await requestToPromise((await this.getStore(CALIBRATIONS_STORE, 'readonly')).getAll()) as CalibrationProfile[];
+    return profiles
+      .filter((profile): profile is CalibrationProfile & { version: string } => !!profile.version)
+      .map(calibrationVersion)
+      .sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  private async getStore(name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const database = await this.openDatabase();
+    return database.transaction(name, mode).objectStore(name);
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.databasePromise) {
+      this.databasePromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available'));
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const database = request.result;
+          if (!database.objectStoreNames.contains(MODELS_STORE)) {
+            database.createObjectStore(MODELS_STORE, { keyPath: 'version.id' });
+          }
+          if (!database.objectStoreNames.contains(CALIBRATIONS_STORE)) {
+            database.createObjectStore(CALIBRATIONS_STORE, { keyPath: 'version' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+
+      // Allow a retry if the database cannot be opened
+      this.databasePromise.catch(() => {
+        this.databasePromise = null;
+      });
+    }
+
+    return this.databasePromise;
+  }
+}
+
+export const indexedDbModelStore = new IndexedDbModelStore();
@@ -0,0 +1,74 @@
+// Versioned storage contract for trained MLP models and calibration profiles
+// Implemented by fileModelStore (server) and indexedDbModelStore (browser).
+import type { io } from '@tensorflow/tfjs';
+import { CalibrationProfile } from './classifiers';
+
+export type ModelKind = 'mlp' | 'calibration';
+
+export interface ModelVersion {
+  id: string; // Sortable version id, see createVersionId
+  kind: ModelKind;
+  name: string; // 'mlp' or the calibration profile name
+  createdAt: string; // Training / calibration date
+  metrics: Record<string, number>;
+}
+
+export interface StoredModel {
+  version: ModelVersion;
+  artifacts: io.ModelArtifacts; // Topology, weight specs and a single weight buffer
+}
+
+export interface ModelStore {
+  saveModel(artifacts: io.ModelArtifacts, metrics: Record<string, number>, createdAt: string): Promise<ModelVersion>;
+  /** Latest version when versionId is omitted, null if there is none */
+  loadModel(versionId?: string): Promise<StoredModel | null>;
+  /** Stores a new version of the profile and stamps profile.version */
+  saveCalibration(profile: CalibrationProfile): Promise<ModelVersion>;
+  /** Latest version of the named profile when versionId is omitted, null if there is none */
+  loadCalibration(name: string, versionId?: string): Promise<CalibrationProfile | null>;
+  /** Oldest first */
+  listVersions(kind: ModelKind): Promise<ModelVersion[]>;
+}
+
+const VERSION_ID_PATTERN = /^v\d{8}T\d{9}Z$/;
+
+// Calibration profile names are also used as directory / key names
+export const PROFILE_NAME_PATTERN = /^[\w-]+$/;
+
+/**
+ * Version id from a date, e.g. v20250301T142530123Z (lexicographic order = chronological order)
+ */
+export const createVersionId = (date: Date = new Date()): string => {
+  return `v${date.toISOString().replace(/[-:.]/g, '')}`;
+};
+
+export const isVersionId = (value: string): boolean => VERSION_ID_PATTERN.test(value);
+
+export const isProfileName = (value: string): boolean => PROFILE_NAME_PATTERN.test(value);
+
+/**
+ * Join the weight buffers of a model into one ArrayBuffer
+ */
+export const joinWeightData = (weightData: io.WeightData | undefined): ArrayBuffer => {
+  if (!weightData) return new ArrayBuffer(0);
+  if (!Array.isArray(weightData)) return weightData;
+
+  const joined = new Uint8Array(weightData.reduce((size, buffer) => size + buffer.byteLength, 0));
+  let offset = 0;
+  for (const buffer of weightData) {
+    joined.set(new Uint8Array(buffer), offset);
+    offset += buffer.byteLength;
+  }
+  return joined.buffer;
+};
+
+/**
+ * Version metadata of a calibration profile
+ */
+export const calibrationVersion = (profile: CalibrationProfile & { version: string }): ModelVersion => ({
+  id: profile.version,
+  kind: 'calibration',
+  name: profile.name,
+  createdAt: profile.createdAt,
+  metrics: { agreement: profile.agreement, threshold: profile.threshold }
+});
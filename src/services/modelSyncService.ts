@@ -0,0 +1,59 @@
+// Keeps the browser classifier on the same model / calibration versions as the server
+import { apiService } from './api';
+import { indexedDbModelStore } from './indexedDbModelStore';
+import { TensorFlowService } from './tensorflowService';
+
+const decodeBase64 = (base64: string): ArrayBuffer => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+};
+
+class ModelSyncService {
+  /**
+   * Copy the server's active versions into IndexedDB (downloading only the missing ones) and load them
+   * When the server is unreachable the latest versions already in IndexedDB are used.
+   */
+  async sync(service: TensorFlowService): Promise<void> {
+    let active: { model: string | null; calibration: string | null; calibrationProfile: string | null } | null = null;
+    try {
+      active = (await apiService.getModels()).active;
+    } catch (error) {
+      console.warn('⚠️ Could not reach the model store, using the versions saved in this browser:', error);
+    }
+
+    if (active?.model && !(await indexedDbModelStore.loadModel(active.model))) {
+      const download = await apiService.getModel(active.model);
+      await indexedDbModelStore.importModel({
+        version: download.version,
+        artifacts: {
+          modelTopology: download.modelTopology,
+          weightSpecs: download.weightSpecs,
+          weightData: decodeBase64(download.weightData)
+        }
+      });
+    }
+    if (!active || active.model) {
+      await service.loadModel(indexedDbModelStore, active?.model ?? undefined);
+    }
+
+    if (active?.calibration && active.calibrationProfile) {
+      let profile = await indexedDbModelStore.loadCalibration(active.calibrationProfile, active.calibration);
+      if (!profile) {
+        profile = await apiService.getCalibrationProfile(active.calibrationProfile, active.calibration);
+        await indexedDbModelStore.importCalibration(profile);
+      }
+      service.setCalibration(profile);
+    } else if (!active) {
+      const latest = (await indexedDbModelStore.listVersions('calibration')).pop();
+      if (latest) {
+        service.setCalibration(await indexedDbModelStore.loadCalibration(latest.name, latest.id));
+      }
+    }
+  }
+}
+
+export const modelSyncService = new ModelSyncService();
@@ -0,0 +1,147 @@
+// Server-side decoding for /api/procesar-imagen: whole image or tiled, under a memory ceiling
+import { createCanvas, Image, loadImage } from 'canvas';
+import { hasCleanup } from '../utils/morphology';
+import {
+  ClassificationOptions,
+  DEFAULT_TILE_SIZE,
+  PixelClassificationResult,
+  TensorFlowService,
+  TileSource
+} from './tensorflowService';
+
+// Longest side of the overview used to fit image-level parameters in tiled mode
+const OVERVIEW_MAX_SIZE = 1024;
+
+// Bytes held per image pixel: decoded image (4) + processed image canvas (4) + classification map, confidence map and ROI mask (3)
+// + light patch labelling (5) + vegetation layer (1)
+const TILED_BYTES_PER_PIXEL = 17;
+// Whole-image mode also holds a full RGBA copy for the classifier (4) and the processed ImageData (4)
+const WHOLE_BYTES_PER_PIXEL = 25;
+// Working memory per tile pixel: RGBA tile, tile map and per-pixel features
+const TILE_BYTES_PER_PIXEL = 40;
+// Morphological cleanup on the full map: three-state mask (1), window row and result buffers (2),
+// region visited flags (1) and flood fill queue (4)
+const CLEANUP_BYTES_PER_PIXEL = 8;
+// Each extra painted image (vegetation layer, confidence heat map): its own full-size canvas (4)
+const LAYER_IMAGE_BYTES_PER_PIXEL = 4;
+// Whole-image mode also paints it through a full-size ImageData (4)
+const WHOLE_LAYER_IMAGE_BYTES_PER_PIXEL = 8;
+// The confidence heat map is painted from a level map (1)
+const CONFIDENCE_LEVELS_BYTES_PER_PIXEL = 1;
+
+export interface ProcessingPlan {
+  tiled: boolean;
+  tileSize: number;
+  estimatedMemoryMB: number;
+  memoryLimitMB: number;
+  withinLimit: boolean;
+}
+
+// Thrown when an image would not fit in PROCESSING_MEMORY_LIMIT_MB even tiled (HTTP 413)
+export class ImageTooLargeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImageTooLargeError';
+  }
+}
+
+class ServerImageService {
+  private memoryLimitMB = Number(process.env.PROCESSING_MEMORY_LIMIT_MB) || 1024;
+  private tileSize = Number(process.env.TILE_SIZE) || DEFAULT_TILE_SIZE;
+  private tiledMinMegapixels = Number(process.env.TILED_MIN_MEGAPIXELS) || 12;
+
+  async decode(buffer: Buffer): Promise<Image> {
+    return loadImage(buffer);
+  }
+
+  /**
+   * Choose whole-image or tiled processing
+   * Images of TILED_MIN_MEGAPIXELS or more, or that would not fit the memory limit whole, are tiled;
+   * withinLimit is false when not even the tiled mode fits.
+   * @param options Classification options, for the buffers of the optional stages
+   */
+  plan(width: number, height: number, forceTiled: boolean = false, options: ClassificationOptions = {}): ProcessingPlan {
+    const pixels = width * height;
+    const toMB = (bytes: number) => bytes / (1024 * 1024);
+    const layerImages = (options.vegetationIndex ? 1 : 0) + (options.confidenceImage ? 1 : 0);
+    const optionalBytesPerPixel = (hasCleanup(options.cleanup) ? CLEANUP_BYTES_PER_PIXEL : 0)
+      + (options.confidenceImage ? CONFIDENCE_LEVELS_BYTES_PER_PIXEL : 0);
+    const tiledMemoryMB = toMB(
+      pixels * (TILED_BYTES_PER_PIXEL + optionalBytesPerPixel + layerImages * LAYER_IMAGE_BYTES_PER_PIXEL)
+      + this.tileSize * this.tileSize * TILE_BYTES_PER_PIXEL
+    );
+    const wholeMemoryMB = toMB(
+      pixels * (WHOLE_BYTES_PER_PIXEL + optionalBytesPerPixel + layerImages * WHOLE_LAYER_IMAGE_BYTES_PER_PIXEL)
+      + pixels * TILE_BYTES_PER_PIXEL
+    );
+
+    const tiled = forceTiled || pixels >= this.tiledMinMegapixels * 1e6 || wholeMemoryMB > this.memoryLimitMB;
+    const estimatedMemoryMB = tiled ? tiledMemoryMB : wholeMemoryMB;
+
+    return {
+      tiled,
+      tileSize: this.tileSize,
+      estimatedMemoryMB,
+      memoryLimitMB: this.memoryLimitMB,
+      withinLimit: estimatedMemoryMB <= this.memoryLimitMB
+    };
+  }
+
+  /**
+   * Decode an uploaded image and classify it whole or in tiles, as planned
+   * Runs in the classification workers, or in-process when they are disabled.
+   */
+  async classify(
+    service: TensorFlowService,
+    buffer: Buffer,
+    options: ClassificationOptions,
+    forceTiled: boolean = false
+  ): Promise<PixelClassificationResult> {
+    const image = await this.decode(buffer);
+
+    // Large images are classified in tiles; refuse the ones that would not fit in memory even then
+    const plan = this.plan(image.width, image.height, forceTiled, options);
+    if (!plan.withinLimit) {
+      throw new ImageTooLargeError(
+        `Image too large: ${image.width}x${image.height} needs ~${Math.round(plan.estimatedMemoryMB)} MB (limit ${plan.memoryLimitMB} MB)`
+      );
+    }
+
+    return plan.tiled
+      ? service.classifyImageTiles(this.createTileSource(image), { ...options, tileSize: plan.tileSize })
+      : service.classifyImagePixels(this.getImageData(image), options);
+  }
+
+  /**
+   * RGBA pixels of the whole image
+   */
+  getImageData(image: Image): ImageData {
+    const canvas = createCanvas(image.width, image.height);
+    const ctx = canvas.getContext('2d');
+    ctx.drawImage(image, 0, 0);
+    return ctx.getImageData(0, 0, image.width, image.height) as unknown as ImageData;
+  }
+
+  /**
+   * Tile reader over the decoded image, with a downscaled overview
+   */
+  createTileSource(image: Image): TileSource {
+    const canvas = createCanvas(image.width, image.height);
+    const ctx = canvas.getContext('2d');
+    ctx.drawImage(image, 0, 0);
+
+    const scale = Math.min(1, OVERVIEW_MAX_SIZE / Math.max(image.width, image.height));
+    const overviewCanvas = createCanvas(Math.max(1, Math.round(image.width * scale)), Math.max(1, Math.round(image.height * scale)));
+    const overviewCtx = overviewCanvas.getContext('2d');
+    overviewCtx.drawImage(image, 0, 0, overviewCanvas.width, overviewCanvas.height);
+
+    return {
+      width: image.width,
+      height: image.height,
+      readTile: (left, top, width, height) => ctx.getImageData(left, top, width, height) as unknown as ImageData,
+      overview: overviewCtx.getImageData(0, 0, overviewCanvas.width, overviewCanvas.height) as unknown as ImageData
+    };
+  }
+}
+
+export const serverImageService = new ServerImageService();
@@ -0,0 +1,62 @@
+// Server-side TensorFlow.js singleton shared by the API routes
+import { calibrationService } from './calibrationService';
+import { fileModelStore } from './fileModelStore';
+import { TensorFlowService } from './tensorflowService';
+import { trainingService } from './trainingService';
+
+let serverTensorFlowService: TensorFlowService | null = null;
+let initializationPromise: Promise<TensorFlowService> | null = null;
+
+/**
+ * Get the initialized server-side TensorFlowService (created on first use)
+ */
+export const getServerTensorFlowService = async (): Promise<TensorFlowService> => {
+  if (serverTensorFlowService) {
+    return serverTensorFlowService;
+  }
+
+  if (!initializationPromise) {
+    initializationPromise = (async () => {
+      console.log('🧠 Initializing server-side TensorFlow.js...');
+      const service = new TensorFlowService();
+      await service.initialize();
+      await service.createModel();
+      await service.trainModel();
+
+      // Load the active calibration profile, latest version unless CALIBRATION_VERSION pins one
+      // (falls back to the default threshold)
+      try {
+        const profile = await calibrationService.loadProfile(undefined, process.env.CALIBRATION_VERSION || undefined);
+        if (profile) {
+          service.setCalibration(profile);
+        } else {
+          console.log(`⚠️ Calibration profile "${calibrationService.getActiveProfileName()}" not found, using defaults`);
+        }
+      } catch (error) {
+        console.error('⚠️ Error loading calibration profile:', error);
+      }
+
+      // Reuse the stored MLP (latest, or the one pinned by MLP_MODEL_VERSION) instead of retraining
+      try {
+        const version = await service.loadModel(fileModelStore, process.env.MLP_MODEL_VERSION || undefined);
+        if (!version && process.env.MLP_TRAIN_ON_STARTUP === 'true') {
+          // Optionally fit the MLP on the annotated dataset (otherwise POST /api/train)
+          await service.trainModel(await trainingService.buildSamples());
+          await service.saveModel(fileModelStore);
+        }
+      } catch (error) {
+        console.error('⚠️ Error loading or training MLP on startup:', error);
+      }
+
+      serverTensorFlowService = service;
+      return service;
+    })();
+
+    // Allow a retry if initialization fails
+    initializationPromise.catch(() => {
+      initializationPromise = null;
+    });
+  }
+
+  return initializationPromise;
+};
@@ -1,3 +1,59 @@
+import type { io, Sequential, Tensor } from '@tensorflow/tfjs';
+import {
+  ClassificationMode,
+  ExclusionClass,
+  LuminanceModel,
+  RoiPolygon,
+  SegmentationClass,
+  ThresholdMethod,
+  VegetationClass,
+  VegetationIndex
+} from '../types';
+import { applyChannelGains, ChannelGains, grayWorldGains } from '../utils/colorSpace';
+import {
+  circlePolygon,
+  DEFAULT_MAX_ZENITH,
+  DEFAULT_ZENITH_RINGS,
+  effectiveLai,
+  FisheyeCircle,
+  fisheyeCircle,
+  HemisphericalOptions,
+  ZenithRing,
+  zenithRingGapFractions
+} from '../utils/hemispherical';
+import { histogramStatistics, HistogramStatistics, otsuThreshold } from '../utils/histogram';
+import { cleanMask, CleanupOptions, foregroundRegionSizes, hasCleanup, MASK_BACKGROUND, MASK_FIXED, MASK_FOREGROUND } from '../utils/morphology';
+import {
+  AMBIGUOUS_CONFIDENCE,
+  BINARY_CLASSES,
+  EXCLUDED_COLOR,
+  EXCLUDED_PIXEL,
+  LIGHT_PATCH_SIZE_CLASSES,
+  LIGHT_SHADOW_COUNTERPARTS,
+  OUTSIDE_ROI_DIMMING,
+  OUTSIDE_ROI_PIXEL,
+  SEGMENTATION_CLASSES,
+  VEGETATION_CLASSES
+} from '../utils/constants';
+import { Point, rasterizePolygon } from '../utils/polygon';
+import { hashProcessingParams } from '../utils/processingParams';
+import { byteToVegetationIndex, vegetationIndexToByte, vegetationIndexValue } from '../utils/vegetationIndex';
+import {
+  CalibrationProfile,
+  ClassificationMap,
+  ClassifierContext,
+  classifierRegistry,
+  ConfidenceMap,
+  resolveClassifierName,
+  ThresholdFeature
+} from './classifiers';
+import { PIXEL_FEATURE_COUNT } from './classifiers/pixelFeatures';
+import { countFeatureKeys, getPrototypes, keyCountHistogram, nearestPrototype, thresholdFeatureKeys } from './classifiers/pixelUtils';
+import { ModelStore, ModelVersion } from './modelStore';
+
+export type { CalibrationProfile, ClassificationMap, ConfidenceMap, ThresholdFeature } from './classifiers';
+export { DEFAULT_THRESHOLD } from './classifiers';
+
 // Dynamic import to avoid server-side loading issues
 let tf: typeof import('@tensorflow/tfjs') | null = null;
 
@@ -15,18 +71,337 @@ const loadTensorFlow = async () => {
   return tf;
 };
 
-export interface PixelClassificationResult {
+export interface ClassificationOptions {
+  classifier?: string; // Registered strategy name (default: 'heuristic', or 'adaptive' for an adaptive thresholdMethod)
+  mode?: ClassificationMode; // 'binary' (default) = light/shadow, 'multiclass' = SEGMENTATION_CLASSES
+  thresholdMethod?: ThresholdMethod; // Adaptive classifier only: 'otsu' (default) or 'valley'
+  luminance?: LuminanceModel; // Brightness compared by the threshold classifiers (default: 'mean'; the calibrated threshold only takes the profile's)
+  whiteBalance?: boolean; // Gray-world white balance before classifying (corrects the color cast of each camera)
+  cleanup?: CleanupOptions; // Morphological cleanup of the light/shadow map after classifying and excluding
+  confidenceImage?: boolean; // Also paint the confidence heat map (confidenceImageData)
+  grid?: GridOptions; // Light percentage per grid cell (lightGrid)
+  vegetationIndex?: VegetationIndex; // Split light and shadow into foliage and soil by this index (vegetation, vegetationImageData)
+  // Upward fisheye canopy photo: sky (light) vs canopy (shadow) inside the image circle with the adaptive threshold on
+  // the blue channel; replaces classifier, mode, exclude and roi
+  hemispherical?: HemisphericalOptions;
+  exclude?: ExclusionClass[]; // Pixels removed from the light/shadow percentages
+  roi?: RoiPolygon[]; // Only pixels inside these polygons are classified and counted
+  tileSize?: number; // classifyImageTiles: tile edge in pixels (default: DEFAULT_TILE_SIZE)
+  onProgress?: (progress: ClassificationProgress) => void; // Called in the classifying thread, not sent to workers
+}
+
+export interface GridOptions {
+  rows: number;
+  columns: number;
+  bands?: boolean; // Also aggregate every grid row and every grid column
+}
+
+// Light percentage over the counted pixels of each region, null where no pixel is counted (outside the ROI or excluded)
+export interface LightGrid {
+  rows: number;
+  columns: number;
+  cells: (number | null)[][]; // [row][column], row 0 at the top of the image
+  rowBands?: (number | null)[]; // Horizontal bands, top to bottom
+  columnBands?: (number | null)[]; // Vertical bands, left to right
+}
+
+// Connected (4-neighbour) regions of light pixels, sizes as a percentage of the counted pixels
+export interface LightPatches {
+  count: number;
+  meanSize: number;
+  largest: number; // Largest patch (gap)
+  largestPixels: number;
+  fragmentation: number; // 1 - Σ size² / (Σ size)²: 0 = all the light in one patch, towards 1 = many small patches
+  sizeClasses: LightPatchSizeClass[]; // Size distribution, one entry per LIGHT_PATCH_SIZE_CLASSES bound plus the open-ended class
+}
+
+export interface LightPatchSizeClass {
+  maxSize: number | null; // Exclusive upper bound (percentage of the counted pixels), null for the last class
+  count: number;
+  lightShare: number; // Share of the light pixels in patches of this class
+}
+
+export interface VegetationLayer {
+  index: VegetationIndex;
+  threshold: number; // Index value above which a pixel is foliage (Otsu over the light and shadow pixels)
+  foliagePercentage: number;
+  classPercentages: Record<VegetationClass, number>; // Of the light and shadow pixels
+}
+
+export interface HemisphericalAnalysis {
+  circle: FisheyeCircle; // Image circle the photo was analysed in (pixels)
+  rings: ZenithRing[];
+  effectiveLai: number | null; // Effective leaf area index, null when no ring has pixels
+}
+
+export interface ClassificationProgress {
+  stage: 'decoding' | 'classifying' | 'painting';
+  completed: number; // Tiles classified so far in the 'classifying' stage
+  total: number;
+}
+
+// Image read region by region, so large images never need a full-resolution copy
+export interface TileSource {
+  width: number;
+  height: number;
+  readTile(left: number, top: number, width: number, height: number): ImageData;
+  overview?: ImageData; // Downscaled whole image for ClassifierStrategy.fitImage (default: the tiles are fitted one by one)
+}
+
+export interface ClassPercentages {
   lightPercentage: number;
   shadowPercentage: number;
+  classPercentages?: Record<SegmentationClass, number>; // Only in multiclass mode, over non-excluded pixels
+}
+
+export interface BrightnessHistogram extends HistogramStatistics {
+  feature: ThresholdFeature; // Threshold feature of the threshold classifiers in binary mode, otherwise 'brightness'
+  luminance: LuminanceModel; // Definition of 'brightness'
+  histogram: number[]; // 256 bins (0-255 feature scale) over the analysed area (image or ROI), after white balance
+}
+
+export interface PixelClassificationResult extends ClassPercentages {
+  classifier: string;
+  mode: ClassificationMode;
+  threshold?: number; // Threshold applied in binary mode
+  thresholdMethod?: ThresholdMethod;
+  brightness: BrightnessHistogram; // On the same scale as threshold
+  luminance?: LuminanceModel; // Only for the threshold classifiers in binary mode
+  whiteBalanceGains?: ChannelGains; // R, G, B gains applied by the gray-world white balance
+  cleanup?: {
+    before: ClassPercentages; // Percentages before the cleanup (the result's are after it)
+    changedPercentage: number; // Share of the counted pixels that changed class
+  };
+  lightGrid?: LightGrid; // When options.grid is given
+  lightPatches: LightPatches; // Patches of the final (cleaned) map
+  hemispherical?: HemisphericalAnalysis; // When options.hemispherical is given (light = sky, shadow = canopy)
+  vegetation?: VegetationLayer; // When options.vegetationIndex is given
+  ambiguousPercentage: number; // Share of the counted pixels with a confidence below AMBIGUOUS_CONFIDENCE
+  excludedPercentage: number; // Share of the analysed area (image or ROI) removed by the exclusion classes
+  excludedBreakdown: Partial<Record<ExclusionClass, number>>; // Share of the analysed area per exclusion class
+  roiPercentage?: number; // Share of the image inside the ROI, only when a ROI is given
+  modelVersion?: string; // Stored MLP version, for classifiers that use the trained model
+  calibrationVersion?: string; // Stored calibration profile version, for the other classifiers
+  paramsHash: string; // Results with the same hash were computed with the same parameters
+  tileCount: number; // 1 unless the image was classified in tiles
   processedImageData: string; // Base64 encoded image
-  classificationMap: number[][];
+  confidenceImageData?: string; // Base64 encoded heat map (red = ambiguous, green = certain), when requested
+  vegetationImageData?: string; // Base64 encoded VEGETATION_CLASSES layer, when options.vegetationIndex is given
+  classificationMap: ClassificationMap; // Row-major, imageData.width x imageData.height
+  confidenceMap: ConfidenceMap; // Confidence of the classifier's decision, before any cleanup
 }
 
+// Labelled pixels for the MLP, features as produced by extractPixelFeatures
+export interface TrainingSamples {
+  features: Float32Array; // count x PIXEL_FEATURE_COUNT, row-major
+  labels: Uint8Array; // 0 = light, 1 = shadow
+  count: number;
+}
+
+export interface TrainingOptions {
+  epochs?: number; // Default: 20
+  batchSize?: number; // Default: 256
+  validationSplit?: number; // Share of the samples held out for validation (default: 0.2)
+}
+
+// Thrown when the samples cannot fill both the training and the validation set (HTTP 400)
+export class InsufficientSamplesError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InsufficientSamplesError';
+  }
+}
+
+export interface TrainingMetrics {
+  trainedAt: string;
+  trainSamples: number;
+  validationSamples: number;
+  epochs: number;
+  loss: number;
+  accuracy: number;
+  validationLoss: number;
+  validationAccuracy: number;
+}
+
+// Index of TRONCO in SEGMENTATION_CLASSES
+const TRUNK_CLASS_INDEX = SEGMENTATION_CLASSES.findIndex(segmentationClass => segmentationClass.id === 'TRONCO');
+
+// Share of the image height (from the bottom) searched for the operator's feet/shadow
+const OPERATOR_BAND = 0.25;
+// Central share of the image width the operator's blob must stay within
+const OPERATOR_MAX_WIDTH = 0.5;
+// Largest operator blob, as a share of the image
+const OPERATOR_MAX_AREA = 0.04;
+
+// Bright, blue-dominant pixels
+const isSkyPixel = (r: number, g: number, b: number): boolean => {
+  return b > 140 && b >= g && b - r > 20;
+};
+
+export const DEFAULT_TILE_SIZE = 1024;
+
+// Colors of the confidence heat map, indexed by confidence >> 2: red (ambiguous), yellow, green (certain)
+const CONFIDENCE_LEVELS = 64;
+const CONFIDENCE_PALETTE = Array.from({ length: CONFIDENCE_LEVELS }, (_, level): [number, number, number] => {
+  const confidence = level / (CONFIDENCE_LEVELS - 1);
+  return confidence < 0.5 ? [255, Math.round(510 * confidence), 0] : [Math.round(510 * (1 - confidence)), 255, 0];
+});
+
+// Extra pixels read around each tile so 3x3 neighbourhood features match the whole-image result
+const TILE_HALO = 1;
+
+// Copy of a rectangular region of an image
+const cropImageData = (imageData: ImageData, left: number, top: number, width: number, height: number): ImageData => {
+  if (left === 0 && top === 0 && width === imageData.width && height === imageData.height) {
+    return imageData;
+  }
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const rowStart = ((top + y) * imageData.width + left) * 4;
+    data.set(imageData.data.subarray(rowStart, rowStart + width * 4), y * width * 4);
+  }
+  return { width, height, data, colorSpace: 'srgb' } as ImageData;
+};
+
+// Copy of a rectangular region of a row-major mask
+const cropMask = (mask: Uint8Array, maskWidth: number, left: number, top: number, width: number, height: number): Uint8Array => {
+  if (left === 0 && top === 0 && width * height === mask.length) {
+    return mask;
+  }
+
+  const cropped = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const rowStart = (top + y) * maskWidth + left;
+    cropped.set(mask.subarray(rowStart, rowStart + width), y * width);
+  }
+  return cropped;
+};
+
+// Row-major mask (1 = inside) of the union of the ROI polygons
+const createRoiMask = (roi: RoiPolygon[], width: number, height: number): Uint8Array => {
+  const mask = new Uint8Array(width * height);
+  for (const polygon of roi) {
+    const vertices = polygon.map(([x, y]): Point => [x * width, y * height]);
+    rasterizePolygon(vertices, width, height, mask);
+  }
+  return mask;
+};
+
+// Vegetation index (0-255 scale) of the inner region of a classified tile, written into the image-wide map
+const writeVegetationBytes = (
+  tileImage: ImageData,
+  inner: TileRect,
+  vegetationMap: Uint8Array,
+  width: number,
+  origin: { left: number; top: number },
+  index: VegetationIndex
+): void => {
+  const { data } = tileImage;
+  for (let y = 0; y < inner.height; y++) {
+    let source = ((inner.top + y) * tileImage.width + inner.left) * 4;
+    let target = (origin.top + y) * width + origin.left;
+    for (let x = 0; x < inner.width; x++, source += 4, target++) {
+      vegetationMap[target] = vegetationIndexToByte(index, vegetationIndexValue(index, data[source], data[source + 1], data[source + 2]));
+    }
+  }
+};
+
+// Flat RGB lookup for every map value; unknown values use the first color
+const createPaletteLookup = (palette: [number, number, number][]): Uint8Array => {
+  const colors = new Uint8Array(256 * 3);
+  for (let value = 0; value < 256; value++) {
+    colors.set(palette[value] || palette[0], value * 3);
+  }
+  return colors;
+};
+
+// Write the classification colors of a tile into an RGBA buffer; pixels outside the ROI keep the dimmed original
+const paintClassification = (
+  tile: ImageData,
+  classificationMap: ClassificationMap,
+  mapWidth: number,
+  left: number,
+  top: number,
+  colors: Uint8Array,
+  target: Uint8ClampedArray
+): void => {
+  const { data, width, height } = tile;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0, pixelIndex = y * width * 4, pixel = (top + y) * mapWidth + left; x < width; x++, pixelIndex += 4, pixel++) {
+      const classification = classificationMap[pixel];
+
+      if (classification === OUTSIDE_ROI_PIXEL) {
+        target[pixelIndex] = data[pixelIndex] * OUTSIDE_ROI_DIMMING;
+        target[pixelIndex + 1] = data[pixelIndex + 1] * OUTSIDE_ROI_DIMMING;
+        target[pixelIndex + 2] = data[pixelIndex + 2] * OUTSIDE_ROI_DIMMING;
+      } else {
+        target[pixelIndex] = colors[classification * 3];
+        target[pixelIndex + 1] = colors[classification * 3 + 1];
+        target[pixelIndex + 2] = colors[classification * 3 + 2];
+      }
+      target[pixelIndex + 3] = 255;
+    }
+  }
+};
+
+interface TileRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Tiles of tileSize x tileSize pixels covering the image, row by row
+const tileGrid = (width: number, height: number, tileSize: number): TileRect[] => {
+  const size = Math.max(1, Math.floor(tileSize));
+  const tiles: TileRect[] = [];
+  for (let top = 0; top < height; top += size) {
+    for (let left = 0; left < width; left += size) {
+      tiles.push({ left, top, width: Math.min(size, width - left), height: Math.min(size, height - top) });
+    }
+  }
+  return tiles;
+};
+
+// Gray-world gains measured inside the ROI on the overview, or on every tile when the source has none
+const measureGrayWorld = (source: TileSource, tiles: TileRect[], roi: RoiPolygon[] | null, roiMask: Uint8Array | null): ChannelGains => {
+  const sums: [number, number, number] = [0, 0, 0];
+  const addSums = (imageData: ImageData, mask: Uint8Array | null) => {
+    const { data } = imageData;
+    for (let pixel = 0, pixelIndex = 0; pixelIndex < data.length; pixel++, pixelIndex += 4) {
+      if (mask && mask[pixel] === 0) continue;
+      sums[0] += data[pixelIndex];
+      sums[1] += data[pixelIndex + 1];
+      sums[2] += data[pixelIndex + 2];
+    }
+  };
+
+  if (source.overview) {
+    const { overview } = source;
+    addSums(overview, roi ? createRoiMask(roi, overview.width, overview.height) : null);
+  } else {
+    for (const tile of tiles) {
+      addSums(
+        source.readTile(tile.left, tile.top, tile.width, tile.height),
+        roiMask ? cropMask(roiMask, source.width, tile.left, tile.top, tile.width, tile.height) : null
+      );
+    }
+  }
+
+  return grayWorldGains(sums);
+};
+
 export class TensorFlowService {
   private model: any = null; // eslint-disable-line @typescript-eslint/no-explicit-any
+  private calibration: CalibrationProfile | null = null;
   private isModelLoaded = false;
   private isInitializing = false;
   private isTraining = false;
+  private isModelTrained = false; // Only true once the MLP has been fitted on labelled samples
+  private trainingMetrics: TrainingMetrics | null = null;
+  private modelVersion: ModelVersion | null = null; // Set once the trained model is saved to / loaded from a store
 
   /**
    * Initialize TensorFlow.js
@@ -69,47 +444,7 @@ export class TensorFlowService {
     }
 
     try {
-      const tensorflow = await loadTensorFlow();
-      
-      // Clear any existing variables
-      tensorflow.disposeVariables();
-
-      // Create a simple sequential model
-      // Create multi-feature model for better precision (efficient for Vercel)
-      this.model = tensorflow.sequential({
-        layers: [
-          // Input layer - multiple features
-          tensorflow.layers.dense({
-            inputShape: [6], // RGB + brightness + contrast + edge_strength
-            units: 16, // Increased for better learning
-            activation: 'relu',
-            name: 'input'
-          }),
-          
-          // Hidden layer for better precision
-          tensorflow.layers.dropout({ rate: 0.1 }), // Light dropout
-          tensorflow.layers.dense({
-            units: 8,
-            activation: 'relu',
-            name: 'hidden'
-          }),
-          
-          // Output layer
-          tensorflow.layers.dense({
-            units: 2, // 2 classes: light (0) and shadow (1)
-            activation: 'softmax',
-            name: 'output'
-          })
-        ]
-      });
-
-      // Compile the model
-      this.model.compile({
-        optimizer: 'adam',
-        loss: 'categoricalCrossentropy',
-        metrics: ['accuracy']
-      });
-
+      this.model = await this.buildModel();
       this.isModelLoaded = true;
       console.log('✅ Model created successfully');
     } catch (error) {
@@ -119,94 +454,502 @@ export class TensorFlowService {
   }
 
   /**
-   * Initialize super-efficient heuristic model (no training needed)
+   * New compiled MLP with fresh weights (the current model is left untouched)
    */
-  async trainModel(): Promise<void> {
+  private async buildModel(): Promise<Sequential> {
+    const tensorflow = await loadTensorFlow();
+
+    // Create multi-feature model for better precision (efficient for Vercel)
+    const model = tensorflow.sequential({
+      layers: [
+        // Input layer - multiple features
+        tensorflow.layers.dense({
+          inputShape: [PIXEL_FEATURE_COUNT], // RGB + brightness + contrast + edge_strength + ExG + VARI
+          units: 16, // Increased for better learning
+          activation: 'relu',
+          name: 'input'
+        }),
+        
+        // Hidden layer for better precision
+        tensorflow.layers.dropout({ rate: 0.1 }), // Light dropout
+        tensorflow.layers.dense({
+          units: 8,
+          activation: 'relu',
+          name: 'hidden'
+        }),
+        
+        // Output layer
+        tensorflow.layers.dense({
+          units: 2, // 2 classes: light (0) and shadow (1)
+          activation: 'softmax',
+          name: 'output'
+        })
+      ]
+    });
+
+    // Compile the model
+    model.compile({
+      optimizer: 'adam',
+      loss: 'categoricalCrossentropy',
+      metrics: ['accuracy']
+    });
+
+    return model;
+  }
+
+  /**
+   * Train the MLP on labelled pixel samples
+   * Without samples only the heuristic classifiers are available (no training needed).
+   */
+  async trainModel(samples?: TrainingSamples, options: TrainingOptions = {}): Promise<TrainingMetrics | null> {
     if (this.isTraining) {
       console.log('⏳ Model already initializing, waiting...');
-      return;
+      return null;
     }
 
+    if (!samples) {
+      this.isModelLoaded = true;
+      console.log('✅ Super-efficient heuristic model ready (no training needed)');
+      return null;
+    }
+
+    const epochs = options.epochs ?? 20;
+    const batchSize = options.batchSize ?? 256;
+    const validationSplit = options.validationSplit ?? 0.2;
+    const validationCount = Math.round(samples.count * validationSplit);
+    const trainCount = samples.count - validationCount;
+    if (trainCount === 0 || validationCount === 0) {
+      throw new InsufficientSamplesError(
+        `Not enough samples to train and validate the model (${samples.count} samples, validation split ${validationSplit})`
+      );
+    }
+
+    const tensors: Tensor[] = [];
+    // Fitted from fresh weights; the current model keeps classifying until the fit succeeds
+    let model: Sequential | null = null;
+
     try {
       this.isTraining = true;
-      console.log('🚀 Initializing super-efficient heuristic model...');
+      console.log(`🚀 Training MLP on ${trainCount} samples (${validationCount} for validation, ${epochs} epochs)...`);
 
-      // No training needed for heuristic model
-      // Just mark as ready
+      model = await this.buildModel();
+      const tensorflow = await loadTensorFlow();
+
+      // Shuffle before splitting so both sets mix every image and class
+      const order = new Int32Array(samples.count).map((_, index) => index);
+      for (let i = order.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [order[i], order[j]] = [order[j], order[i]];
+      }
+
+      const toTensors = (indices: Int32Array) => {
+        const features = new Float32Array(indices.length * PIXEL_FEATURE_COUNT);
+        const labels = new Int32Array(indices.length);
+        indices.forEach((sampleIndex, row) => {
+          features.set(samples.features.subarray(sampleIndex * PIXEL_FEATURE_COUNT, (sampleIndex + 1) * PIXEL_FEATURE_COUNT), row * PIXEL_FEATURE_COUNT);
+          labels[row] = samples.labels[sampleIndex];
+        });
+        const xs = tensorflow.tensor2d(features, [indices.length, PIXEL_FEATURE_COUNT]);
+        const labelTensor = tensorflow.tensor1d(labels, 'int32');
+        const ys = tensorflow.oneHot(labelTensor, 2);
+        tensors.push(xs, labelTensor, ys);
+        return { xs, ys };
+      };
+
+      const train = toTensors(order.subarray(0, trainCount));
+      const validation = toTensors(order.subarray(trainCount));
+
+      const history = await model.fit(train.xs, train.ys, {
+        epochs,
+        batchSize,
+        shuffle: true,
+        validationData: [validation.xs, validation.ys],
+        verbose: 0,
+        callbacks: {
+          onEpochEnd: (epoch: number, logs?: Record<string, number>) => {
+            console.log(`📈 Epoch ${epoch + 1}/${epochs}: loss ${logs?.loss?.toFixed(4)}, val_loss ${logs?.val_loss?.toFixed(4)}`);
+          }
+        }
+      });
+
+      const lastValue = (...keys: string[]) => {
+        const values = keys.map(key => history.history[key]).find(Boolean) as number[] | undefined;
+        return values ? Number(values[values.length - 1]) : NaN;
+      };
+
+      this.trainingMetrics = {
+        trainedAt: new Date().toISOString(),
+        trainSamples: trainCount,
+        validationSamples: validationCount,
+        epochs,
+        loss: lastValue('loss'),
+        accuracy: lastValue('acc', 'accuracy'),
+        validationLoss: lastValue('val_loss'),
+        validationAccuracy: lastValue('val_acc', 'val_accuracy')
+      };
+      this.model?.dispose();
+      this.model = model;
+      model = null;
       this.isModelLoaded = true;
-      console.log('✅ Super-efficient heuristic model ready (no training needed)');
+      this.isModelTrained = true;
+      this.modelVersion = null;
+
+      console.log(`✅ MLP trained (validation accuracy ${(this.trainingMetrics.validationAccuracy * 100).toFixed(2)}%)`);
+      return this.trainingMetrics;
     } catch (error) {
-      console.error('❌ Error initializing heuristic model:', error);
+      console.error('❌ Error training model:', error);
       throw error;
     } finally {
+      model?.dispose(); // Only set when the fit failed
+      tensors.forEach(tensor => tensor.dispose());
       this.isTraining = false;
     }
   }
 
   /**
-   * Classify image using simple but effective heuristic analysis
-   * Based on real labeled data analysis (threshold: 130)
+   * Save the trained MLP as a new version in the given store
+   */
+  async saveModel(store: ModelStore): Promise<ModelVersion> {
+    if (!this.isModelTrained || !this.trainingMetrics) {
+      throw new Error('MLP model is not trained yet');
+    }
+
+    const tensorflow = await loadTensorFlow();
+    const saved: io.ModelArtifacts[] = [];
+    await this.model.save(tensorflow.io.withSaveHandler(async modelArtifacts => {
+      saved.push(modelArtifacts);
+      return { modelArtifactsInfo: { dateSaved: new Date(), modelTopologyType: 'JSON' } };
+    }));
+    const [artifacts] = saved;
+    if (!artifacts) {
+      throw new Error('Could not serialize the MLP model');
+    }
+
+    const { trainedAt, ...metrics } = this.trainingMetrics;
+    this.modelVersion = await store.saveModel(artifacts, metrics, trainedAt);
+    console.log(`💾 MLP saved as version ${this.modelVersion.id}`);
+    return this.modelVersion;
+  }
+
+  /**
+   * Replace the MLP with a stored version (latest when versionId is omitted)
+   * @returns The loaded version, or null if the store has no model
+   */
+  async loadModel(store: ModelStore, versionId?: string): Promise<ModelVersion | null> {
+    const stored = await store.loadModel(versionId);
+    if (!stored) {
+      return null;
+    }
+
+    const tensorflow = await loadTensorFlow();
+    const model = await tensorflow.loadLayersModel(tensorflow.io.fromMemory(stored.artifacts));
+
+    this.model?.dispose();
+    this.model = model;
+    this.isModelLoaded = true;
+    this.isModelTrained = true;
+    this.modelVersion = stored.version;
+
+    const { metrics } = stored.version;
+    this.trainingMetrics = {
+      trainedAt: stored.version.createdAt,
+      trainSamples: metrics.trainSamples,
+      validationSamples: metrics.validationSamples,
+      epochs: metrics.epochs,
+      loss: metrics.loss,
+      accuracy: metrics.accuracy,
+      validationLoss: metrics.validationLoss,
+      validationAccuracy: metrics.validationAccuracy
+    };
+
+    console.log(`✅ MLP version ${stored.version.id} loaded`);
+    return stored.version;
+  }
+
+  /**
+   * Use a calibration profile (threshold and class prototypes) instead of the defaults
    */
-  async classifyImagePixels(imageData: ImageData): Promise<PixelClassificationResult> {
+  setCalibration(profile: CalibrationProfile | null): void {
+    this.calibration = profile;
+    if (profile) {
+      console.log(`🎯 Calibration profile "${profile.name}" loaded (${profile.feature} > ${profile.threshold})`);
+    }
+  }
+
+  getCalibration(): CalibrationProfile | null {
+    return this.calibration;
+  }
+
+  /**
+   * Luminance the fixed threshold of a classifier was calibrated on, or null when the classifier fits its own
+   * threshold or the calibrated feature is a single channel
+   */
+  calibratedLuminance(classifierName: string): LuminanceModel | null {
+    const classifier = classifierRegistry.get(classifierName);
+    if (!classifier.thresholdMethods.includes('fixed') || (this.calibration?.feature ?? 'brightness') !== 'brightness') {
+      return null;
+    }
+    return this.calibration?.luminance ?? 'mean';
+  }
+
+  /**
+   * Classify image pixels with the selected classifier strategy
+   * Exclusions, ROI and percentages are applied the same way whatever the classifier.
+   */
+  async classifyImagePixels(imageData: ImageData, options: ClassificationOptions = {}): Promise<PixelClassificationResult> {
+    const { width, height } = imageData;
+    return this.classifyImageTiles(
+      {
+        width,
+        height,
+        readTile: (left, top, tileWidth, tileHeight) => cropImageData(imageData, left, top, tileWidth, tileHeight),
+        overview: imageData
+      },
+      { ...options, tileSize: options.tileSize ?? Math.max(width, height) }
+    );
+  }
+
+  /**
+   * Classify an image tile by tile (tiled mode for large images)
+   * Only one tile of pixels is read at a time; the classification map is kept as one byte per pixel.
+   * Strategies with image-level parameters (adaptive threshold, k-means) fit them once on source.overview.
+   */
+  async classifyImageTiles(source: TileSource, options: ClassificationOptions = {}): Promise<PixelClassificationResult> {
     try {
       if (!this.isModelLoaded) {
         throw new Error('Model not ready. Please initialize first.');
       }
 
-      const { data, width, height } = imageData;
-      const classificationMap: number[][] = [];
-      let lightPixels = 0;
-      let shadowPixels = 0;
+      const { width, height } = source;
+      const totalPixels = width * height;
+      const tiles = tileGrid(width, height, options.tileSize ?? DEFAULT_TILE_SIZE);
 
-      console.log(`🔍 Processing image: ${width}x${height} pixels with simple heuristic (threshold: 130)`);
+      // Hemispherical photos are classified as sky/canopy inside the image circle only
+      const hemispherical = options.hemispherical;
+      const circle = hemispherical ? fisheyeCircle(width, height, hemispherical) : null;
+      const mode = hemispherical ? 'binary' : options.mode ?? 'binary';
 
-      // Initialize classification map
-      for (let y = 0; y < height; y++) {
-        classificationMap[y] = [];
+      // Pixels outside the regions of interest are neither classified nor counted
+      const roi = circle
+        ? [circlePolygon(circle, width, height)]
+        : options.roi && options.roi.length > 0 ? options.roi : null;
+      const roiMask = roi ? createRoiMask(roi, width, height) : null;
+      let roiPixels = totalPixels;
+      if (roiMask) {
+        roiPixels = 0;
+        for (let pixel = 0; pixel < roiMask.length; pixel++) {
+          roiPixels += roiMask[pixel];
+        }
       }
 
-      // Process image pixel by pixel for maximum precision
-      const threshold = 130; // Optimal threshold from labeled data analysis
-      
-      console.log(`🔍 Processing ${width * height} pixels individually for maximum precision`);
-      
-      for (let y = 0; y < height; y++) {
-        for (let x = 0; x < width; x++) {
-          const pixelIndex = (y * width + x) * 4;
-          const r = data[pixelIndex];
-          const g = data[pixelIndex + 1];
-          const b = data[pixelIndex + 2];
-          
-          // Calculate brightness for this individual pixel
-          const brightness = (r + g + b) / 3;
-          
-          // Simple heuristic classification based on real data analysis
-          // Threshold 130 was determined from labeled agricultural images
-          // Expected distribution: ~61% light, ~39% shadow (excluding trunks)
-          const classification = brightness > threshold ? 0 : 1; // 0 = light, 1 = shadow
-          
-          // Apply classification to this pixel
-          classificationMap[y][x] = classification;
-          if (classification === 0) {
-            lightPixels++;
-          } else {
-            shadowPixels++;
-          }
+      const classifier = classifierRegistry.get(resolveClassifierName(options));
+      if (!classifier.modes.includes(mode)) {
+        throw new Error(`Classifier "${classifier.name}" does not support ${mode} mode`);
+      }
+      if (options.thresholdMethod && !classifier.thresholdMethods.includes(options.thresholdMethod)) {
+        throw new Error(`Classifier "${classifier.name}" does not support the ${options.thresholdMethod} threshold`);
+      }
+      const calibratedLuminance = mode === 'binary' ? this.calibratedLuminance(classifier.name) : null;
+      if (calibratedLuminance && options.luminance && options.luminance !== calibratedLuminance) {
+        throw new Error(`The ${classifier.name} threshold was calibrated on the ${calibratedLuminance} luminance, not ${options.luminance}`);
+      }
+      const luminance = options.luminance ?? calibratedLuminance ?? 'mean';
+
+      const context: ClassifierContext = {
+        mode,
+        thresholdMethod: options.thresholdMethod,
+        luminance,
+        feature: hemispherical ? 'b' : undefined, // The sky is brightest against the canopy in the blue channel
+        calibration: this.calibration,
+        model: this.isModelTrained ? this.model : null,
+        roiMask
+      };
+      // Gray-world white balance from the whole image (inside the ROI), applied to every tile before classifying
+      const whiteBalanceGains = options.whiteBalance ? measureGrayWorld(source, tiles, roi, roiMask) : undefined;
+      const balance = (image: ImageData) => whiteBalanceGains ? applyChannelGains(image, whiteBalanceGains) : image;
+      if (whiteBalanceGains) {
+        console.log(`⚖️ Gray-world white balance: R×${whiteBalanceGains[0].toFixed(2)} G×${whiteBalanceGains[1].toFixed(2)} B×${whiteBalanceGains[2].toFixed(2)}`);
+      }
+
+      if (tiles.length > 1 && classifier.fitImage && source.overview) {
+        const overview = balance(source.overview);
+        context.imageFit = await classifier.fitImage(overview, {
+          ...context,
+          roiMask: roi ? createRoiMask(roi, overview.width, overview.height) : null
+        });
+      }
+      if (tiles.length > 1) {
+        console.log(`🧩 Classifying ${width}x${height} pixels in ${tiles.length} tiles`);
+      }
+
+      // Histogram of the feature the threshold is applied to, counted on the inner region of every tile
+      const histogramFeature = classifier.thresholdMethods.length > 0 && mode === 'binary'
+        ? context.feature ?? this.calibration?.feature ?? 'brightness'
+        : 'brightness';
+      const histogramKeys = thresholdFeatureKeys(histogramFeature, luminance);
+      const keyCounts = new Uint32Array(histogramKeys.values.length);
+
+      // Classify every tile (with its halo) and remove trunks and sky from the light/shadow denominator
+      const exclude = hemispherical ? [] : options.exclude ?? [];
+      let classificationMap: ClassificationMap = new Uint8Array(tiles.length > 1 ? totalPixels : 0);
+      let confidenceMap: ConfidenceMap = new Uint8Array(tiles.length > 1 ? totalPixels : 0);
+      const vegetationMap = options.vegetationIndex ? new Uint8Array(totalPixels) : null;
+      const excludedCounts: Partial<Record<ExclusionClass, number>> = {};
+      let threshold: number | undefined;
+      let thresholdMethod: ThresholdMethod | undefined;
+      let completedTiles = 0;
+
+      for (const tile of tiles) {
+        const haloLeft = Math.max(0, tile.left - TILE_HALO);
+        const haloTop = Math.max(0, tile.top - TILE_HALO);
+        const haloWidth = Math.min(width, tile.left + tile.width + TILE_HALO) - haloLeft;
+        const haloHeight = Math.min(height, tile.top + tile.height + TILE_HALO) - haloTop;
+        const tileImage = balance(source.readTile(haloLeft, haloTop, haloWidth, haloHeight));
+        const tileRoiMask = roiMask ? cropMask(roiMask, width, haloLeft, haloTop, haloWidth, haloHeight) : null;
+        const inner: TileRect = { left: tile.left - haloLeft, top: tile.top - haloTop, width: tile.width, height: tile.height };
+
+        const classification = await classifier.classify(tileImage, { ...context, roiMask: tileRoiMask });
+        countFeatureKeys(tileImage, tileRoiMask, histogramKeys, keyCounts, inner);
+        if (vegetationMap && options.vegetationIndex) {
+          writeVegetationBytes(tileImage, inner, vegetationMap, width, { left: tile.left, top: tile.top }, options.vegetationIndex);
         }
+        threshold = classification.threshold;
+        thresholdMethod = classification.thresholdMethod;
+        completedTiles++;
+        options.onProgress?.({ stage: 'classifying', completed: completedTiles, total: tiles.length });
+        if (tiles.length === 1) {
+          // A single tile is the whole image: its maps are updated in place
+          classificationMap = classification.classificationMap;
+          confidenceMap = classification.confidenceMap;
+        }
+
+        this.mergeTile(
+          tileImage,
+          classification,
+          inner,
+          { classificationMap, confidenceMap },
+          width,
+          { left: tile.left, top: tile.top },
+          mode,
+          exclude,
+          excludedCounts
+        );
       }
 
-      const totalPixels = lightPixels + shadowPixels;
-      const lightPercentage = (lightPixels / totalPixels) * 100;
-      const shadowPercentage = (shadowPixels / totalPixels) * 100;
+      // The operator's shadow can span several tiles: flood filled on the assembled map
+      if (exclude.includes('OPERADOR')) {
+        const operatorPixels = this.excludeOperatorShadow(classificationMap, mode, width, height);
+        if (operatorPixels > 0) {
+          excludedCounts.OPERADOR = operatorPixels;
+        }
+      }
+
+      const excludedPixels = Object.values(excludedCounts).reduce((sum, count) => sum + count, 0);
+      const countedPixels = roiPixels - excludedPixels;
+      const ambiguousPixels = this.countAmbiguousPixels(classificationMap, confidenceMap);
+
+      // Optional morphological cleanup; the percentages before it are kept for comparison
+      let cleanup: PixelClassificationResult['cleanup'];
+      if (hasCleanup(options.cleanup)) {
+        const before = this.computePercentages(classificationMap, mode, countedPixels);
+        const changedPixels = this.cleanupClassification(classificationMap, mode, width, height, options.cleanup);
+        cleanup = { before, changedPercentage: countedPixels > 0 ? (changedPixels / countedPixels) * 100 : 0 };
+      }
+
+      const { lightPercentage, shadowPercentage, classPercentages } = this.computePercentages(classificationMap, mode, countedPixels);
+      const lightGrid = options.grid ? this.computeLightGrid(classificationMap, mode, width, height, options.grid) : undefined;
+      const lightPatches = this.computeLightPatches(classificationMap, mode, width, height, countedPixels);
+      let hemisphericalAnalysis: HemisphericalAnalysis | undefined;
+      if (hemispherical && circle) {
+        const rings = zenithRingGapFractions(
+          classificationMap,
+          width,
+          height,
+          circle,
+          Math.max(1, Math.floor(hemispherical.rings ?? DEFAULT_ZENITH_RINGS)),
+          hemispherical.maxZenith ?? DEFAULT_MAX_ZENITH
+        );
+        hemisphericalAnalysis = { circle, rings, effectiveLai: effectiveLai(rings) };
+        console.log(`🌐 Hemispherical photo: ${lightPercentage.toFixed(1)}% sky, effective LAI ${hemisphericalAnalysis.effectiveLai?.toFixed(2) ?? '-'}`);
+      }
+
+      const histogram = keyCountHistogram(keyCounts, histogramKeys.values);
+      const brightness: BrightnessHistogram = {
+        feature: histogramFeature,
+        luminance,
+        histogram,
+        ...histogramStatistics(histogram)
+      };
+
+      const excludedBreakdown: Partial<Record<ExclusionClass, number>> = {};
+      for (const [exclusionClass, count] of Object.entries(excludedCounts) as [ExclusionClass, number][]) {
+        excludedBreakdown[exclusionClass] = (count / roiPixels) * 100;
+      }
 
       // Create processed image
-      const processedImageData = this.createProcessedImage(imageData, classificationMap);
+      options.onProgress?.({ stage: 'painting', completed: tiles.length, total: tiles.length });
+      const palette = (mode === 'multiclass' ? SEGMENTATION_CLASSES : BINARY_CLASSES).map(paletteClass => paletteClass.color);
+      palette[EXCLUDED_PIXEL] = EXCLUDED_COLOR;
+      const processedImageData = await this.createProcessedImage(source, tiles, classificationMap, palette);
+      const confidenceImageData = options.confidenceImage
+        ? await this.createConfidenceImage(source, tiles, classificationMap, confidenceMap)
+        : undefined;
+      let vegetation: VegetationLayer | undefined;
+      let vegetationImageData: string | undefined;
+      if (vegetationMap && options.vegetationIndex) {
+        vegetation = this.computeVegetationLayer(classificationMap, vegetationMap, mode, options.vegetationIndex);
+        const vegetationPalette = VEGETATION_CLASSES.map(vegetationClass => vegetationClass.color);
+        vegetationPalette[EXCLUDED_PIXEL] = EXCLUDED_COLOR;
+        vegetationImageData = await this.createProcessedImage(source, tiles, vegetationMap, vegetationPalette);
+        console.log(`🌿 Vegetation (${vegetation.index} > ${vegetation.threshold.toFixed(3)}): ${vegetation.foliagePercentage.toFixed(1)}% foliage`);
+      }
+
+      const modelVersion = classifier.usesModel ? this.modelVersion?.id : undefined;
+      const calibrationVersion = classifier.usesModel ? undefined : this.calibration?.version;
+      const thresholdLuminance = threshold !== undefined && mode === 'binary' ? luminance : undefined;
 
       return {
+        classifier: classifier.name,
+        mode,
         lightPercentage,
         shadowPercentage,
+        classPercentages,
+        threshold,
+        thresholdMethod,
+        brightness,
+        luminance: thresholdLuminance,
+        whiteBalanceGains,
+        cleanup,
+        lightGrid,
+        lightPatches,
+        hemispherical: hemisphericalAnalysis,
+        vegetation,
+        ambiguousPercentage: countedPixels > 0 ? (ambiguousPixels / countedPixels) * 100 : 0,
+        excludedPercentage: roiPixels > 0 ? (excludedPixels / roiPixels) * 100 : 0,
+        excludedBreakdown,
+        roiPercentage: roiMask ? (roiPixels / totalPixels) * 100 : undefined,
+        modelVersion,
+        calibrationVersion,
+        paramsHash: hashProcessingParams({
+          classifier: classifier.name,
+          mode,
+          thresholdMethod,
+          luminance: thresholdLuminance,
+          whiteBalance: !!whiteBalanceGains,
+          cleanup: cleanup ? options.cleanup : undefined,
+          hemispherical: hemisphericalAnalysis && {
+            rings: hemisphericalAnalysis.rings.length,
+            maxZenith: hemisphericalAnalysis.rings[hemisphericalAnalysis.rings.length - 1].toZenith
+          },
+          exclude,
+          version: modelVersion ?? calibrationVersion
+        }),
+        tileCount: tiles.length,
         processedImageData,
-        classificationMap
+        confidenceImageData,
+        vegetationImageData,
+        classificationMap,
+        confidenceMap
       };
     } catch (error) {
       console.error('❌ Error classifying pixels:', error);
@@ -215,20 +958,454 @@ export class TensorFlowService {
   }
 
   /**
-   * Create processed image with classification colors
+   * Light, shadow and (multiclass) per-class shares of the counted pixels
+   */
+  private computePercentages(classificationMap: ClassificationMap, mode: ClassificationMode, countedPixels: number): ClassPercentages {
+    // One pass over the map; EXCLUDED_PIXEL and OUTSIDE_ROI_PIXEL land in their own (ignored) bins
+    const classCounts = new Uint32Array(256);
+    for (let pixel = 0; pixel < classificationMap.length; pixel++) {
+      classCounts[classificationMap[pixel]]++;
+    }
+
+    const toPercentage = (count: number) => countedPixels > 0 ? (count / countedPixels) * 100 : 0;
+
+    if (mode !== 'multiclass') {
+      return { lightPercentage: toPercentage(classCounts[0]), shadowPercentage: toPercentage(classCounts[1]) };
+    }
+
+    let lightPercentage = 0;
+    let shadowPercentage = 0;
+    const classPercentages = {} as Record<SegmentationClass, number>;
+    SEGMENTATION_CLASSES.forEach((segmentationClass, index) => {
+      const percentage = toPercentage(classCounts[index]);
+      classPercentages[segmentationClass.id] = percentage;
+      if (segmentationClass.light === true) {
+        lightPercentage += percentage;
+      } else if (segmentationClass.light === false) {
+        shadowPercentage += percentage;
+      }
+    });
+    return { lightPercentage, shadowPercentage, classPercentages };
+  }
+
+  /**
+   * 1 for the map values of light classes, 0 for the rest
    */
-  private createProcessedImage(imageData: ImageData, classificationMap: number[][]): string {
+  private lightClassLookup(mode: ClassificationMode): Uint8Array {
+    const isLight = new Uint8Array(256);
+    if (mode === 'multiclass') {
+      SEGMENTATION_CLASSES.forEach((segmentationClass, index) => {
+        isLight[index] = segmentationClass.light === true ? 1 : 0;
+      });
+    } else {
+      isLight[0] = 1;
+    }
+    return isLight;
+  }
+
+  /**
+   * Light patches of the map: count, size distribution, largest patch and fragmentation
+   */
+  private computeLightPatches(
+    classificationMap: ClassificationMap,
+    mode: ClassificationMode,
+    width: number,
+    height: number,
+    countedPixels: number
+  ): LightPatches {
+    // Light pixels are the foreground; everything else is fixed so only the light regions are walked
+    const isLight = this.lightClassLookup(mode);
+    const mask = new Uint8Array(classificationMap.length);
+    for (let pixel = 0; pixel < mask.length; pixel++) {
+      mask[pixel] = isLight[classificationMap[pixel]] ? MASK_FOREGROUND : MASK_FIXED;
+    }
+    const sizes = foregroundRegionSizes(mask, width, height);
+
+    const toPercentage = (pixels: number) => countedPixels > 0 ? (pixels / countedPixels) * 100 : 0;
+    const lightPixels = sizes.reduce((sum, size) => sum + size, 0);
+    const squaredSum = sizes.reduce((sum, size) => sum + size * size, 0);
+    const largestPixels = sizes.reduce((largest, size) => Math.max(largest, size), 0);
+
+    const sizeClasses: LightPatchSizeClass[] = [...LIGHT_PATCH_SIZE_CLASSES, null].map(maxSize => ({ maxSize, count: 0, lightShare: 0 }));
+    for (const size of sizes) {
+      const bound = LIGHT_PATCH_SIZE_CLASSES.findIndex(maxSize => toPercentage(size) < maxSize);
+      const sizeClass = sizeClasses[bound === -1 ? sizeClasses.length - 1 : bound];
+      sizeClass.count++;
+      sizeClass.lightShare += size;
+    }
+    for (const sizeClass of sizeClasses) {
+      sizeClass.lightShare = lightPixels > 0 ? (sizeClass.lightShare / lightPixels) * 100 : 0;
+    }
+
+    return {
+      count: sizes.length,
+      meanSize: sizes.length > 0 ? toPercentage(lightPixels / sizes.length) : 0,
+      largest: toPercentage(largestPixels),
+      largestPixels,
+      fragmentation: lightPixels > 0 ? 1 - squaredSum / (lightPixels * lightPixels) : 0,
+      sizeClasses
+    };
+  }
+
+  /**
+   * Foliage/soil split of the light and shadow pixels: Otsu threshold on the vegetation index of those pixels
+   * @param layerMap Vegetation index on the 0-255 scale; replaced in place by the VEGETATION_CLASSES index
+   * (excluded, trunk and outside-ROI pixels keep the look they have in the classification)
+   */
+  private computeVegetationLayer(
+    classificationMap: ClassificationMap,
+    layerMap: Uint8Array,
+    mode: ClassificationMode,
+    index: VegetationIndex
+  ): VegetationLayer {
+    const isLight = this.lightClassLookup(mode);
+    const isCounted = new Uint8Array(256);
+    if (mode === 'multiclass') {
+      SEGMENTATION_CLASSES.forEach((segmentationClass, classIndex) => {
+        isCounted[classIndex] = segmentationClass.light === null ? 0 : 1;
+      });
+    } else {
+      isCounted[0] = 1;
+      isCounted[1] = 1;
+    }
+
+    const histogram = new Array<number>(256).fill(0);
+    for (let pixel = 0; pixel < layerMap.length; pixel++) {
+      if (isCounted[classificationMap[pixel]]) histogram[layerMap[pixel]]++;
+    }
+    const threshold = otsuThreshold(histogram);
+
+    // Foliage classes come first, sunlit before shaded
+    const counts = new Float64Array(VEGETATION_CLASSES.length);
+    for (let pixel = 0; pixel < layerMap.length; pixel++) {
+      const classification = classificationMap[pixel];
+      if (!isCounted[classification]) {
+        layerMap[pixel] = classification === OUTSIDE_ROI_PIXEL ? OUTSIDE_ROI_PIXEL : EXCLUDED_PIXEL;
+        continue;
+      }
+      const vegetationClass = (layerMap[pixel] > threshold ? 0 : 2) + (isLight[classification] ? 0 : 1);
+      layerMap[pixel] = vegetationClass;
+      counts[vegetationClass]++;
+    }
+
+    const total = counts.reduce((sum, count) => sum + count, 0);
+    const classPercentages = {} as Record<VegetationClass, number>;
+    VEGETATION_CLASSES.forEach((vegetationClass, classIndex) => {
+      classPercentages[vegetationClass.id] = total > 0 ? (counts[classIndex] / total) * 100 : 0;
+    });
+
+    return {
+      index,
+      threshold: byteToVegetationIndex(index, threshold + 0.5),
+      foliagePercentage: classPercentages.FOLLAJE_LUZ + classPercentages.FOLLAJE_SOMBRA,
+      classPercentages
+    };
+  }
+
+  /**
+   * Light percentage of the cells of a rows x columns grid over the map (and of its rows and columns as bands)
+   */
+  private computeLightGrid(
+    classificationMap: ClassificationMap,
+    mode: ClassificationMode,
+    width: number,
+    height: number,
+    grid: GridOptions
+  ): LightGrid {
+    const rows = Math.max(1, Math.min(height, Math.floor(grid.rows)));
+    const columns = Math.max(1, Math.min(width, Math.floor(grid.columns)));
+
+    // EXCLUDED_PIXEL and OUTSIDE_ROI_PIXEL are not counted
+    const isLight = this.lightClassLookup(mode);
+    const columnOf = Uint16Array.from({ length: width }, (_, x) => Math.floor((x * columns) / width));
+    const lightCounts = new Float64Array(rows * columns);
+    const countedCounts = new Float64Array(rows * columns);
+    for (let y = 0; y < height; y++) {
+      const rowOffset = Math.floor((y * rows) / height) * columns;
+      for (let x = 0, pixel = y * width; x < width; x++, pixel++) {
+        const classification = classificationMap[pixel];
+        if (classification === EXCLUDED_PIXEL || classification === OUTSIDE_ROI_PIXEL) continue;
+        const cell = rowOffset + columnOf[x];
+        countedCounts[cell]++;
+        lightCounts[cell] += isLight[classification];
+      }
+    }
+
+    const toPercentage = (light: number, counted: number) => counted > 0 ? (light / counted) * 100 : null;
+    const sumCells = (cells: number[], counts: Float64Array) => cells.reduce((sum, cell) => sum + counts[cell], 0);
+    const rowCells = (row: number) => Array.from({ length: columns }, (_, column) => row * columns + column);
+    const columnCells = (column: number) => Array.from({ length: rows }, (_, row) => row * columns + column);
+
+    const lightGrid: LightGrid = {
+      rows,
+      columns,
+      cells: Array.from({ length: rows }, (_, row) =>
+        rowCells(row).map(cell => toPercentage(lightCounts[cell], countedCounts[cell]))
+      )
+    };
+    if (grid.bands) {
+      lightGrid.rowBands = Array.from({ length: rows }, (_, row) =>
+        toPercentage(sumCells(rowCells(row), lightCounts), sumCells(rowCells(row), countedCounts))
+      );
+      lightGrid.columnBands = Array.from({ length: columns }, (_, column) =>
+        toPercentage(sumCells(columnCells(column), lightCounts), sumCells(columnCells(column), countedCounts))
+      );
+    }
+    return lightGrid;
+  }
+
+  /**
+   * Counted pixels (not excluded, inside the ROI) whose confidence is below AMBIGUOUS_CONFIDENCE
+   */
+  private countAmbiguousPixels(classificationMap: ClassificationMap, confidenceMap: ConfidenceMap): number {
+    const limit = AMBIGUOUS_CONFIDENCE * 255;
+    let ambiguousPixels = 0;
+    for (let pixel = 0; pixel < classificationMap.length; pixel++) {
+      const classification = classificationMap[pixel];
+      if (classification !== EXCLUDED_PIXEL && classification !== OUTSIDE_ROI_PIXEL && confidenceMap[pixel] < limit) {
+        ambiguousPixels++;
+      }
+    }
+    return ambiguousPixels;
+  }
+
+  /**
+   * Clean the light/shadow partition of the map in place (see cleanMask): shadow is the foreground,
+   * trunk, excluded and outside-ROI pixels never change. A flipped multiclass pixel takes the
+   * light/shadow counterpart of its surface (e.g. MALLA_SOMBRA -> MALLA_LUZ).
+   * @returns Number of pixels that changed class
+   */
+  private cleanupClassification(
+    classificationMap: ClassificationMap,
+    mode: ClassificationMode,
+    width: number,
+    height: number,
+    options: CleanupOptions
+  ): number {
+    const states = new Uint8Array(256).fill(MASK_FIXED);
+    const flipped = Uint8Array.from({ length: 256 }, (_, value) => value);
+    if (mode === 'multiclass') {
+      SEGMENTATION_CLASSES.forEach((segmentationClass, index) => {
+        const counterpart = LIGHT_SHADOW_COUNTERPARTS[segmentationClass.id];
+        if (segmentationClass.light === null || !counterpart) return;
+        states[index] = segmentationClass.light ? MASK_BACKGROUND : MASK_FOREGROUND;
+        flipped[index] = SEGMENTATION_CLASSES.findIndex(candidate => candidate.id === counterpart);
+      });
+    } else {
+      states[0] = MASK_BACKGROUND;
+      states[1] = MASK_FOREGROUND;
+      flipped[0] = 1;
+      flipped[1] = 0;
+    }
+
+    const mask = new Uint8Array(classificationMap.length);
+    for (let pixel = 0; pixel < mask.length; pixel++) {
+      mask[pixel] = states[classificationMap[pixel]];
+    }
+
+    cleanMask(mask, width, height, options);
+
+    let changedPixels = 0;
+    for (let pixel = 0; pixel < mask.length; pixel++) {
+      if (mask[pixel] !== states[classificationMap[pixel]]) {
+        classificationMap[pixel] = flipped[classificationMap[pixel]];
+        changedPixels++;
+      }
+    }
+    return changedPixels;
+  }
+
+  /**
+   * Copy the inner region of a classified tile into the image maps, marking trunk and sky pixels
+   * with EXCLUDED_PIXEL when excluded
+   * @param counts Excluded pixel count per exclusion class, incremented in place
+   */
+  private mergeTile(
+    tileImage: ImageData,
+    tileMaps: { classificationMap: ClassificationMap; confidenceMap: ConfidenceMap },
+    inner: TileRect,
+    { classificationMap, confidenceMap }: { classificationMap: ClassificationMap; confidenceMap: ConfidenceMap },
+    mapWidth: number,
+    position: { left: number; top: number },
+    mode: ClassificationMode,
+    exclude: ExclusionClass[],
+    counts: Partial<Record<ExclusionClass, number>>
+  ): void {
+    const { data } = tileImage;
+    const { classificationMap: tileMap, confidenceMap: tileConfidence } = tileMaps;
+    const prototypes = getPrototypes(this.calibration);
+    const excludeTrunk = exclude.includes('TRONCO');
+    const excludeSky = exclude.includes('CIELO');
+    let trunkPixels = 0;
+    let skyPixels = 0;
+
+    for (let y = 0; y < inner.height; y++) {
+      const tileRow = (inner.top + y) * tileImage.width + inner.left;
+      const mapRow = (position.top + y) * mapWidth + position.left;
+      confidenceMap.set(tileConfidence.subarray(tileRow, tileRow + inner.width), mapRow);
+
+      if (!excludeTrunk && !excludeSky) {
+        classificationMap.set(tileMap.subarray(tileRow, tileRow + inner.width), mapRow);
+        continue;
+      }
+
+      for (let x = 0; x < inner.width; x++) {
+        const tilePixel = tileRow + x;
+        let value = tileMap[tilePixel];
+
+        if (value !== OUTSIDE_ROI_PIXEL) {
+          const r = data[tilePixel * 4];
+          const g = data[tilePixel * 4 + 1];
+          const b = data[tilePixel * 4 + 2];
+
+          if (excludeTrunk && (mode === 'multiclass' ? value : nearestPrototype(r, g, b, prototypes)) === TRUNK_CLASS_INDEX) {
+            value = EXCLUDED_PIXEL;
+            trunkPixels++;
+          } else if (excludeSky && isSkyPixel(r, g, b)) {
+            value = EXCLUDED_PIXEL;
+            skyPixels++;
+          }
+        }
+
+        classificationMap[mapRow + x] = value;
+      }
+    }
+
+    if (trunkPixels > 0) counts.TRONCO = (counts.TRONCO ?? 0) + trunkPixels;
+    if (skyPixels > 0) counts.CIELO = (counts.CIELO ?? 0) + skyPixels;
+  }
+
+  /**
+   * The operator's feet and shadow show up as a compact dark blob at the bottom centre of the frame:
+   * flood fill shadow pixels from the central part of the bottom row, limited to the bottom OPERATOR_BAND.
+   * A fill that reaches the sides of the central OPERATOR_MAX_WIDTH or grows past OPERATOR_MAX_AREA is
+   * the canopy's shaded ground rather than the operator, and is left alone.
+   */
+  private excludeOperatorShadow(classificationMap: ClassificationMap, mode: ClassificationMode, width: number, height: number): number {
+    // 1 for the map values that count as shadow (trunk is neither light nor shadow)
+    const isShadow = new Uint8Array(256);
+    if (mode === 'multiclass') {
+      SEGMENTATION_CLASSES.forEach((segmentationClass, index) => {
+        isShadow[index] = segmentationClass.light === false ? 1 : 0;
+      });
+    } else {
+      isShadow[1] = 1;
+    }
+
+    const minIndex = Math.floor(height * (1 - OPERATOR_BAND)) * width;
+    const left = Math.floor((width * (1 - OPERATOR_MAX_WIDTH)) / 2);
+    const right = width - 1 - left;
+    const maxArea = Math.floor(width * height * OPERATOR_MAX_AREA);
+    // Filled pixels and their original values, to restore them when the blob is rejected
+    const queue = new Int32Array(maxArea + 1);
+    const originals = new Uint8Array(maxArea + 1);
+    let head = 0;
+    let tail = 0;
+    let rejected = false;
+
+    const visit = (index: number) => {
+      if (rejected || !isShadow[classificationMap[index]]) return;
+      const x = index % width;
+      if (x <= left || x >= right || tail > maxArea) {
+        rejected = true;
+        return;
+      }
+      originals[tail] = classificationMap[index];
+      classificationMap[index] = EXCLUDED_PIXEL;
+      queue[tail++] = index;
+    };
+
+    for (let index = (height - 1) * width + left + 1; index < (height - 1) * width + right; index++) {
+      visit(index);
+    }
+
+    while (head < tail && !rejected) {
+      const index = queue[head++];
+      visit(index - 1);
+      visit(index + 1);
+      if (index - width >= minIndex) visit(index - width);
+      if (index + width < classificationMap.length) visit(index + width);
+    }
+
+    if (rejected) {
+      for (let filled = 0; filled < tail; filled++) {
+        classificationMap[queue[filled]] = originals[filled];
+      }
+      console.log('🧍 Operator shadow not excluded: the dark region at the bottom is not a compact blob');
+      return 0;
+    }
+    return tail;
+  }
+
+  /**
+   * Create processed image with classification colors, painted tile by tile
+   */
+  private async createProcessedImage(
+    source: TileSource,
+    tiles: TileRect[],
+    classificationMap: ClassificationMap,
+    palette: [number, number, number][]
+  ): Promise<string> {
     if (typeof window !== 'undefined' && typeof document !== 'undefined') {
-      return this.createProcessedImageBrowser(imageData, classificationMap);
+      return this.createProcessedImageBrowser(source, tiles, classificationMap, palette);
+    } else if (typeof OffscreenCanvas !== 'undefined') {
+      return this.createProcessedImageWorker(source, tiles, classificationMap, palette);
     } else {
-      return this.createProcessedImageNode(imageData, classificationMap);
+      return this.createProcessedImageNode(source, tiles, classificationMap, palette);
+    }
+  }
+
+  /**
+   * Heat map of the confidence, painted like the classification (excluded and outside-ROI pixels keep their look)
+   */
+  private createConfidenceImage(
+    source: TileSource,
+    tiles: TileRect[],
+    classificationMap: ClassificationMap,
+    confidenceMap: ConfidenceMap
+  ): Promise<string> {
+    const levels = new Uint8Array(classificationMap.length);
+    for (let pixel = 0; pixel < levels.length; pixel++) {
+      const classification = classificationMap[pixel];
+      levels[pixel] = classification === EXCLUDED_PIXEL || classification === OUTSIDE_ROI_PIXEL
+        ? classification
+        : confidenceMap[pixel] >> 2;
+    }
+
+    const palette = [...CONFIDENCE_PALETTE];
+    palette[EXCLUDED_PIXEL] = EXCLUDED_COLOR;
+    return this.createProcessedImage(source, tiles, levels, palette);
+  }
+
+  /**
+   * Paint every tile onto a 2D context
+   */
+  private paintTiles(
+    ctx: Pick<CanvasRenderingContext2D, 'createImageData' | 'putImageData'>,
+    source: TileSource,
+    tiles: TileRect[],
+    classificationMap: ClassificationMap,
+    palette: [number, number, number][]
+  ): void {
+    const colors = createPaletteLookup(palette);
+
+    for (const tile of tiles) {
+      const tileImage = source.readTile(tile.left, tile.top, tile.width, tile.height);
+      const processedImageData = ctx.createImageData(tile.width, tile.height);
+      paintClassification(tileImage, classificationMap, source.width, tile.left, tile.top, colors, processedImageData.data);
+      ctx.putImageData(processedImageData, tile.left, tile.top);
     }
   }
 
   /**
    * Create processed image in browser environment
    */
-  private createProcessedImageBrowser(imageData: ImageData, classificationMap: number[][]): string {
+  private createProcessedImageBrowser(
+    source: TileSource,
+    tiles: TileRect[],
+    classificationMap: ClassificationMap,
+    palette: [number, number, number][]
+  ): string {
     try {
       const canvas = document.createElement('canvas');
       const ctx = canvas.getContext('2d');
@@ -237,34 +1414,12 @@ export class TensorFlowService {
         throw new Error('Could not get canvas context');
       }
 
-      canvas.width = imageData.width;
-      canvas.height = imageData.height;
-
-      const processedImageData = ctx.createImageData(imageData.width, imageData.height);
+      canvas.width = source.width;
+      canvas.height = source.height;
 
       // Apply classification colors
-      for (let y = 0; y < imageData.height; y++) {
-        for (let x = 0; x < imageData.width; x++) {
-          const pixelIndex = (y * imageData.width + x) * 4;
-          const classification = classificationMap[y]?.[x] || 0;
-          
-          if (classification === 1) {
-            // Light area - green
-            processedImageData.data[pixelIndex] = 0;     // R
-            processedImageData.data[pixelIndex + 1] = 255; // G
-            processedImageData.data[pixelIndex + 2] = 0;   // B
-            processedImageData.data[pixelIndex + 3] = 255; // A
-          } else {
-            // Shadow area - blue
-            processedImageData.data[pixelIndex] = 0;     // R
-            processedImageData.data[pixelIndex + 1] = 0;   // G
-            processedImageData.data[pixelIndex + 2] = 255; // B
-            processedImageData.data[pixelIndex + 3] = 255; // A
-          }
-        }
-      }
+      this.paintTiles(ctx, source, tiles, classificationMap, palette);
 
-      ctx.putImageData(processedImageData, 0, 0);
       return canvas.toDataURL('image/png');
     } catch (error) {
       console.error('❌ Error creating processed image in browser:', error);
@@ -272,45 +1427,58 @@ export class TensorFlowService {
     }
   }
 
+  /**
+   * Create processed image in a Web Worker (no DOM: OffscreenCanvas)
+   */
+  private async createProcessedImageWorker(
+    source: TileSource,
+    tiles: TileRect[],
+    classificationMap: ClassificationMap,
+    palette: [number, number, number][]
+  ): Promise<string> {
+    try {
+      const canvas = new OffscreenCanvas(source.width, source.height);
+      const ctx = canvas.getContext('2d');
+
+      if (!ctx) {
+        throw new Error('Could not get canvas context');
+      }
+
+      // Apply classification colors
+      this.paintTiles(ctx, source, tiles, classificationMap, palette);
+
+      const blob = await canvas.convertToBlob({ type: 'image/png' });
+      return await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+      });
+    } catch (error) {
+      console.error('❌ Error creating processed image in worker:', error);
+      return 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+    }
+  }
+
   /**
    * Create processed image in Node.js environment
    */
-  private createProcessedImageNode(imageData: ImageData, classificationMap: number[][]): string {
+  private createProcessedImageNode(
+    source: TileSource,
+    tiles: TileRect[],
+    classificationMap: ClassificationMap,
+    palette: [number, number, number][]
+  ): string {
     try {
       // Import canvas dynamically for Node.js
       // eslint-disable-next-line @typescript-eslint/no-require-imports
       const { createCanvas } = require('canvas');
       
-      const canvas = createCanvas(imageData.width, imageData.height);
+      const canvas = createCanvas(source.width, source.height);
       const ctx = canvas.getContext('2d');
       
-      // Create image data for the processed image
-      const processedImageData = ctx.createImageData(imageData.width, imageData.height);
-      
       // Apply classification colors
-      for (let y = 0; y < imageData.height; y++) {
-        for (let x = 0; x < imageData.width; x++) {
-          const pixelIndex = (y * imageData.width + x) * 4;
-          const classification = classificationMap[y]?.[x] || 0;
-          
-          if (classification === 1) {
-            // Light area - green
-            processedImageData.data[pixelIndex] = 0;     // R
-            processedImageData.data[pixelIndex + 1] = 255; // G
-            processedImageData.data[pixelIndex + 2] = 0;   // B
-            processedImageData.data[pixelIndex + 3] = 255; // A
-          } else {
-            // Shadow area - blue
-            processedImageData.data[pixelIndex] = 0;     // R
-            processedImageData.data[pixelIndex + 1] = 0;   // G
-            processedImageData.data[pixelIndex + 2] = 255; // B
-            processedImageData.data[pixelIndex + 3] = 255; // A
-          }
-        }
-      }
-      
-      // Put the processed image data on canvas
-      ctx.putImageData(processedImageData, 0, 0);
+      this.paintTiles(ctx, source, tiles, classificationMap, palette);
       
       // Convert to base64
       return canvas.toDataURL('image/png');
@@ -331,11 +1499,23 @@ export class TensorFlowService {
   /**
    * Get model status
    */
-  getStatus(): { initialized: boolean; modelLoaded: boolean; training: boolean } {
+  getStatus(): {
+    initialized: boolean;
+    modelLoaded: boolean;
+    training: boolean;
+    modelTrained: boolean;
+    trainingMetrics: TrainingMetrics | null;
+    modelVersion: ModelVersion | null;
+    calibrationVersion: string | null;
+  } {
     return {
       initialized: !this.isInitializing,
       modelLoaded: this.isModelLoaded,
-      training: this.isTraining
+      training: this.isTraining,
+      modelTrained: this.isModelTrained,
+      trainingMetrics: this.trainingMetrics,
+      modelVersion: this.modelVersion,
+      calibrationVersion: this.calibration?.version ?? null
     };
   }
 }
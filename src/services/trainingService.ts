@@ -0,0 +1,66 @@
+// MLP training samples drawn from the labelme masks
+import { SEGMENTATION_CLASSES } from '../utils/constants';
+import { extractPixelFeatures, PIXEL_FEATURE_COUNT } from './classifiers/pixelFeatures';
+import { datasetService, UNLABELLED_PIXEL } from './datasetService';
+import { TrainingSamples } from './tensorflowService';
+
+export const DEFAULT_SAMPLES_PER_CLASS = 10000;
+
+class TrainingService {
+  /**
+   * Sample up to samplesPerClass light and shadow pixels across all annotated images
+   * Both classes get (about) the same number of samples; trunks and unlabelled pixels are skipped.
+   */
+  async buildSamples(samplesPerClass: number = DEFAULT_SAMPLES_PER_CLASS): Promise<TrainingSamples> {
+    const dataset = await datasetService.loadDataset();
+    if (dataset.length === 0) {
+      throw new Error('No annotated images found in the dataset');
+    }
+
+    // Label of every segmentation class: 0 = light, 1 = shadow, null = not used for training
+    const classLabels = SEGMENTATION_CLASSES.map(segmentationClass =>
+      segmentationClass.light === null ? null : segmentationClass.light ? 0 : 1
+    );
+
+    // Total light/shadow pixels, to turn samplesPerClass into a per-pixel keep probability
+    const totals = [0, 0];
+    for (const annotatedImage of dataset) {
+      for (const label of annotatedImage.labelMask) {
+        const sampleLabel = label === UNLABELLED_PIXEL ? null : classLabels[label];
+        if (sampleLabel !== null) totals[sampleLabel]++;
+      }
+    }
+    if (totals[0] === 0 || totals[1] === 0) {
+      throw new Error('The dataset needs labelled light and shadow pixels to train the model');
+    }
+    const keepProbability = totals.map(total => Math.min(1, samplesPerClass / total));
+
+    const featureChunks: Float32Array[] = [];
+    const labels: number[] = [];
+
+    for (const annotatedImage of dataset) {
+      const pixels: number[] = [];
+      annotatedImage.labelMask.forEach((label, pixel) => {
+        const sampleLabel = label === UNLABELLED_PIXEL ? null : classLabels[label];
+        if (sampleLabel !== null && Math.random() < keepProbability[sampleLabel]) {
+          pixels.push(pixel);
+          labels.push(sampleLabel);
+        }
+      });
+
+      featureChunks.push(extractPixelFeatures(annotatedImage.imageData, pixels));
+      console.log(`🎓 ${annotatedImage.name}: ${pixels.length} training samples`);
+    }
+
+    const features = new Float32Array(labels.length * PIXEL_FEATURE_COUNT);
+    let offset = 0;
+    for (const chunk of featureChunks) {
+      features.set(chunk, offset);
+      offset += chunk.length;
+    }
+
+    return { features, labels: Uint8Array.from(labels), count: labels.length };
+  }
+}
+
+export const trainingService = new TrainingService();
@@ -28,9 +28,76 @@ export interface ImageFile {
   dateTime?: {
     date: string;
     time: string;
+    utc?: string; // GPS UTC instant
+    utcOffset?: string; // EXIF OffsetTime* value ("±HH:MM")
   };
   hilera?: string;
   numero_planta?: string;
+  roi?: RoiPolygon[]; // Regions of interest drawn by the user
+}
+
+// Histogram (256 bins, 0-255) of the value compared against the threshold, with its statistics
+export interface BrightnessHistogramSummary {
+  caracteristica: 'brightness' | 'r' | 'g' | 'b'; // 'brightness' = luminancia
+  luminancia: LuminanceModel;
+  conteos: number[];
+  media: number;
+  mediana: number;
+  percentiles: Record<'p5' | 'p25' | 'p75' | 'p95', number>;
+}
+
+// Light percentage per cell of a grid over the photo (null = no counted pixels), stored with the record
+export interface LightGridSummary {
+  filas: number;
+  columnas: number;
+  celdas: (number | null)[][]; // [fila][columna], fila 0 arriba
+  bandas_filas?: (number | null)[]; // Franjas horizontales, de arriba abajo
+  bandas_columnas?: (number | null)[]; // Franjas verticales, de izquierda a derecha
+}
+
+// Connected light regions (sunflecks / gaps), sizes as a percentage of the counted pixels, stored with the record
+export interface LightPatchesSummary {
+  cantidad: number;
+  tamano_medio: number;
+  mayor: number; // Largest patch (gap)
+  mayor_pixeles: number;
+  indice_fragmentacion: number; // 0 = all the light in one patch, towards 1 = many small patches
+  distribucion: {
+    tamano_maximo: number | null; // Exclusive upper bound of the class, null for the last one
+    cantidad: number;
+    porcentaje_luz: number; // Share of the light in patches of this class
+  }[];
+}
+
+// Foliage/soil split of the light and shadow pixels by a green-vegetation index
+export interface VegetationSummary {
+  indice: VegetationIndex;
+  umbral: number; // Index value above which a pixel is foliage
+  porcentaje_follaje: number;
+  porcentajes_clases: Record<VegetationClass, number>; // Of the light and shadow pixels
+}
+
+// Gap fraction analysis of an upward-facing hemispherical (fisheye) photo; porcentaje_luz is then the visible sky
+export interface HemisphericalSummary {
+  centro_x: number; // Image circle center, pixels
+  centro_y: number;
+  radio: number; // Image circle radius (90° zenith), pixels
+  anillos: {
+    cenit_desde: number; // Degrees
+    cenit_hasta: number;
+    pixeles: number;
+    fraccion_huecos: number | null; // Share of sky (0-1), null when the ring has no pixels
+  }[];
+  lai_efectivo: number | null; // Effective leaf area index
+}
+
+// Sun position when the photo was taken, from its GPS coordinates and EXIF date/time
+export interface SolarPositionSummary {
+  elevacion: number; // Degrees above the horizon
+  azimut: number; // Degrees clockwise from north
+  hora_utc: string; // ISO instant
+  fuente_hora: 'gps' | 'exif_offset' | 'declared' | 'longitude'; // GPS time stamp, EXIF offset, zona_horaria field or longitude
+  zona_horaria_estimada: boolean; // true = local time converted with the nominal zone of the longitude
 }
 
 export interface ProcessingResult {
@@ -49,6 +116,36 @@ export interface ProcessingResult {
   error?: string;
   message?: string;
   processed_image?: string;
+  clasificador?: string;
+  modo?: ClassificationMode;
+  porcentajes_clases?: Partial<Record<SegmentationClass, number>>;
+  umbral?: number;
+  metodo_umbral?: ThresholdMethod;
+  porcentaje_excluido?: number;
+  exclusiones?: Partial<Record<ExclusionClass, number>>;
+  porcentaje_roi?: number; // Share of the image inside the regions of interest
+  modelo_version?: string; // Stored MLP version that produced the result
+  calibracion_version?: string; // Stored calibration profile version that produced the result
+  hash_parametros?: string; // Same hash = same classifier, options and version
+  teselas?: number; // Tiles the image was classified in (large images only)
+  luminancia?: LuminanceModel; // Brightness definition used by the threshold classifiers
+  histograma_brillo?: BrightnessHistogramSummary; // On the same scale as umbral
+  balance_blancos?: [number, number, number]; // Gray-world R, G, B gains, when white balance was applied
+  cuadricula_luz?: LightGridSummary;
+  parches_luz?: LightPatchesSummary;
+  hemisferica?: HemisphericalSummary;
+  vegetacion?: VegetationSummary;
+  imagen_vegetacion?: string; // Sunlit/shaded foliage and soil layer, when a vegetation index was requested
+  posicion_solar?: SolarPositionSummary;
+  indice_luz_normalizado?: number; // porcentaje_luz brought to an overhead sun, comparable across hours
+  porcentaje_ambiguo?: number; // Share of the counted pixels classified with low confidence
+  imagen_confianza?: string; // Confidence heat map, when requested
+  limpieza?: {
+    porcentaje_cambiado: number; // Share of the counted pixels that changed class
+    porcentaje_luz_antes: number;
+    porcentaje_sombra_antes: number;
+    porcentajes_clases_antes?: Partial<Record<SegmentationClass, number>>;
+  };
 }
 
 export interface HistoryRecord {
@@ -68,6 +165,9 @@ export interface HistoryRecord {
   imagen: string;
   dispositivo: string;
   direccion: string;
+  elevacion_solar?: number | null;
+  indice_luz_normalizado?: number | null; // porcentaje_luz brought to an overhead sun, when the sun position is known
+  lai_efectivo?: number | null; // Hemispherical photos only
 }
 
 export interface ApiResponse<T> {
@@ -90,6 +190,28 @@ export interface TestFormData {
   imagen: File;
 }
 
+export type ClassificationMode = 'binary' | 'multiclass';
+
+// 'fixed' = calibrated/global threshold, 'otsu' / 'valley' = computed from each image's histogram
+export type ThresholdMethod = 'fixed' | 'otsu' | 'valley';
+
+// Brightness compared against the threshold: mean of RGB, Rec.709 luma, HSV value or CIE Lab L* (all on a 0-255 scale)
+export type LuminanceModel = 'mean' | 'rec709' | 'hsv' | 'lab';
+
+// Classes labelled in dataset/anotaciones (labelme polygons)
+export type SegmentationClass = 'MALLA_LUZ' | 'MALLA_SOMBRA' | 'SUELO_LUZ' | 'SUELO_SOMBRA' | 'TRONCO';
+
+// Pixels removed from the light/shadow percentages
+export type ExclusionClass = 'TRONCO' | 'CIELO' | 'OPERADOR';
+
+// Green-vegetation index of the optional foliage/soil layer: Excess Green or VARI
+export type VegetationIndex = 'exg' | 'vari';
+
+export type VegetationClass = 'FOLLAJE_LUZ' | 'FOLLAJE_SOMBRA' | 'SUELO_LUZ' | 'SUELO_SOMBRA';
+
+// Polygon vertices as [x, y] in normalized image coordinates (0-1)
+export type RoiPolygon = [number, number][];
+
 export type TabType = 'analizar' | 'probar' | 'historial';
 
 export interface NotificationState {
@@ -7,4 +7,5 @@ declare module 'piexifjs' {
   export const ExifIFD: Record<string, number>;
   export const GPSIFD: Record<string, number>;
   export const InteropIFD: Record<string, number>;
+  export const TAGS: Record<string, Record<number, { name: string; type: string }>>;
 }
@@ -0,0 +1,222 @@
+// Wire format of the classification options sent to the API (multipart form or query string)
+import { classifierRegistry, resolveClassifierName } from '../services/classifiers';
+import { ClassificationOptions, GridOptions } from '../services/tensorflowService';
+import { RoiPolygon } from '../types';
+import { EXCLUSION_CLASSES, LUMINANCE_MODELS, THRESHOLD_METHODS, VEGETATION_INDICES } from './constants';
+import { HemisphericalOptions } from './hemispherical';
+import { CleanupOptions, hasCleanup } from './morphology';
+
+// Upper bounds of the cleanup parameters accepted from the API
+export const MAX_CLEANUP_RADIUS = 25;
+export const MAX_CLEANUP_AREA = 1_000_000;
+// Largest number of grid rows or columns accepted from the API
+export const MAX_GRID_SIZE = 20;
+// Largest number of zenith rings of a hemispherical photo accepted from the API
+export const MAX_ZENITH_RINGS = 18;
+
+interface OptionsSource {
+  get(name: string): FormDataEntryValue | null;
+}
+
+// Thrown for classification options the API cannot honour (HTTP 400)
+export class InvalidClassificationOptionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidClassificationOptionsError';
+  }
+}
+
+/**
+ * Append the classification options to a FormData (client side)
+ */
+export const appendClassificationOptions = (formData: FormData, options: ClassificationOptions): void => {
+  if (options.classifier) formData.append('classifier', options.classifier);
+  if (options.mode) formData.append('mode', options.mode);
+  if (options.thresholdMethod) formData.append('threshold_method', options.thresholdMethod);
+  if (options.luminance) formData.append('luminance', options.luminance);
+  if (options.whiteBalance) formData.append('white_balance', 'true');
+  if (options.confidenceImage) formData.append('confidence_image', 'true');
+  if (hasCleanup(options.cleanup)) {
+    const { opening, closing, minArea, fillHoles } = options.cleanup;
+    if (opening) formData.append('opening', String(opening));
+    if (closing) formData.append('closing', String(closing));
+    if (minArea) formData.append('min_area', String(minArea));
+    if (fillHoles) formData.append('fill_holes', String(fillHoles));
+  }
+  if (options.grid) {
+    formData.append('grid_rows', String(options.grid.rows));
+    formData.append('grid_columns', String(options.grid.columns));
+    if (options.grid.bands) formData.append('grid_bands', 'true');
+  }
+  if (options.hemispherical) {
+    const { centerX, centerY, radius, rings, maxZenith } = options.hemispherical;
+    formData.append('hemispherical', 'true');
+    if (centerX !== undefined) formData.append('circle_x', String(centerX));
+    if (centerY !== undefined) formData.append('circle_y', String(centerY));
+    if (radius !== undefined) formData.append('circle_radius', String(radius));
+    if (rings !== undefined) formData.append('zenith_rings', String(rings));
+    if (maxZenith !== undefined) formData.append('max_zenith', String(maxZenith));
+  }
+  if (options.vegetationIndex) formData.append('vegetation_index', options.vegetationIndex);
+  if (options.exclude && options.exclude.length > 0) formData.append('exclude', options.exclude.join(','));
+  if (options.roi && options.roi.length > 0) formData.append('roi', JSON.stringify(options.roi));
+};
+
+/**
+ * Parse the JSON list of ROI polygons, keeping only polygons with at least 3 valid vertices
+ * Coordinates are clamped to the normalized [0, 1] range.
+ * @throws InvalidClassificationOptionsError when a non-empty value yields no usable polygon
+ */
+const parseRoi = (value: string): RoiPolygon[] => {
+  if (!value) return [];
+
+  const invalid = () => new InvalidClassificationOptionsError('Invalid roi: expected a JSON list of polygons with at least 3 [x, y] vertices');
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw invalid();
+  }
+  if (!Array.isArray(parsed)) throw invalid();
+
+  const clamp = (coordinate: number) => Math.min(1, Math.max(0, coordinate));
+  const polygons = parsed
+    .filter((polygon): polygon is unknown[] => Array.isArray(polygon))
+    .map(polygon => polygon
+      .filter((point): point is [number, number] =>
+        Array.isArray(point) && point.length === 2 && point.every(coordinate => typeof coordinate === 'number' && Number.isFinite(coordinate))
+      )
+      .map(([x, y]): [number, number] => [clamp(x), clamp(y)])
+    )
+    .filter(polygon => polygon.length >= 3);
+  if (polygons.length === 0) throw invalid();
+  return polygons;
+};
+
+/**
+ * Cleanup parameters, undefined when no step is enabled
+ * Values are whole numbers clamped to MAX_CLEANUP_RADIUS / MAX_CLEANUP_AREA.
+ */
+const parseCleanup = (getString: (name: string) => string): CleanupOptions | undefined => {
+  const getInteger = (name: string, max: number) => {
+    const value = Number.parseInt(getString(name), 10);
+    return Number.isNaN(value) ? 0 : Math.min(max, Math.max(0, value));
+  };
+
+  const cleanup: CleanupOptions = {
+    opening: getInteger('opening', MAX_CLEANUP_RADIUS),
+    closing: getInteger('closing', MAX_CLEANUP_RADIUS),
+    minArea: getInteger('min_area', MAX_CLEANUP_AREA),
+    fillHoles: getInteger('fill_holes', MAX_CLEANUP_AREA)
+  };
+  return hasCleanup(cleanup) ? cleanup : undefined;
+};
+
+/**
+ * Grid of grid_rows x grid_columns cells (each 1-MAX_GRID_SIZE, a missing one counts as 1),
+ * undefined when neither is given
+ */
+const parseGrid = (getString: (name: string) => string): GridOptions | undefined => {
+  const rows = Number.parseInt(getString('grid_rows'), 10);
+  const columns = Number.parseInt(getString('grid_columns'), 10);
+  if (Number.isNaN(rows) && Number.isNaN(columns)) {
+    return undefined;
+  }
+
+  const clamp = (value: number) => Number.isNaN(value) ? 1 : Math.min(MAX_GRID_SIZE, Math.max(1, value));
+  return { rows: clamp(rows), columns: clamp(columns), bands: getString('grid_bands') === 'true' };
+};
+
+/**
+ * Hemispherical photo options when hemispherical=true: image circle (fractions, see HemisphericalOptions) and
+ * zenith rings (1-MAX_ZENITH_RINGS, up to 5-90°); values out of range are clamped, missing ones use the defaults
+ */
+const parseHemispherical = (getString: (name: string) => string): HemisphericalOptions | undefined => {
+  if (getString('hemispherical') !== 'true') {
+    return undefined;
+  }
+
+  const getNumber = (name: string, min: number, max: number) => {
+    const value = Number.parseFloat(getString(name));
+    return Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : undefined;
+  };
+  const rings = getNumber('zenith_rings', 1, MAX_ZENITH_RINGS);
+  return {
+    centerX: getNumber('circle_x', 0, 1),
+    centerY: getNumber('circle_y', 0, 1),
+    radius: getNumber('circle_radius', 0.05, 1),
+    rings: rings === undefined ? undefined : Math.floor(rings),
+    maxZenith: getNumber('max_zenith', 5, 90)
+  };
+};
+
+/**
+ * Wire names of the options a hemispherical photo cannot honour (it is always classified as sky/canopy with the
+ * adaptive threshold on the blue channel, inside the image circle); empty when there is no conflict
+ */
+const hemisphericalConflicts = (options: ClassificationOptions): string[] => {
+  if (!options.hemispherical) return [];
+
+  const hemisphericalClassifier = classifierRegistry.get('adaptive');
+  const conflicts: [string, boolean][] = [
+    ['classifier', options.classifier !== undefined && options.classifier !== hemisphericalClassifier.name],
+    ['mode', options.mode === 'multiclass'],
+    ['threshold_method', options.thresholdMethod !== undefined && !hemisphericalClassifier.thresholdMethods.includes(options.thresholdMethod)],
+    ['luminance', options.luminance !== undefined],
+    ['vegetation_index', options.vegetationIndex !== undefined],
+    ['exclude', (options.exclude?.length ?? 0) > 0],
+    ['roi', (options.roi?.length ?? 0) > 0]
+  ];
+  return conflicts.filter(([, conflict]) => conflict).map(([name]) => name);
+};
+
+/**
+ * Read the classification options from a FormData or URLSearchParams (server side)
+ * Unknown luminance, vegetation index and exclusion values are ignored so the classifier falls back to its defaults.
+ * @throws InvalidClassificationOptionsError for an unknown classifier or threshold method, a mode or threshold the
+ * classifier that would run does not support, options a hemispherical photo cannot honour, or an unusable ROI
+ */
+export const parseClassificationOptions = (source: OptionsSource): ClassificationOptions => {
+  const getString = (name: string) => {
+    const value = source.get(name);
+    return typeof value === 'string' ? value : '';
+  };
+
+  const options: ClassificationOptions = {
+    classifier: classifierRegistry.has(getString('classifier')) ? getString('classifier') : undefined,
+    mode: getString('mode') === 'multiclass' ? 'multiclass' : 'binary',
+    thresholdMethod: THRESHOLD_METHODS.find(method => method.id === getString('threshold_method'))?.id,
+    luminance: LUMINANCE_MODELS.find(model => model.id === getString('luminance'))?.id,
+    whiteBalance: getString('white_balance') === 'true',
+    cleanup: parseCleanup(getString),
+    confidenceImage: getString('confidence_image') === 'true',
+    grid: parseGrid(getString),
+    hemispherical: parseHemispherical(getString),
+    vegetationIndex: VEGETATION_INDICES.find(index => index.id === getString('vegetation_index'))?.id,
+    exclude: getString('exclude')
+      .split(',')
+      .map(id => EXCLUSION_CLASSES.find(exclusionClass => exclusionClass.id === id.trim())?.id)
+      .filter((id): id is NonNullable<typeof id> => id !== undefined),
+    roi: parseRoi(getString('roi'))
+  };
+
+  if (getString('classifier') && !options.classifier) {
+    throw new InvalidClassificationOptionsError(`Unknown classifier: ${getString('classifier')}`);
+  }
+  if (getString('threshold_method') && !options.thresholdMethod) {
+    throw new InvalidClassificationOptionsError(`Unknown threshold method: ${getString('threshold_method')}`);
+  }
+  const conflicts = hemisphericalConflicts(options);
+  if (conflicts.length > 0) {
+    throw new InvalidClassificationOptionsError(`Options not supported for hemispherical photos: ${conflicts.join(', ')}`);
+  }
+  const classifier = classifierRegistry.get(resolveClassifierName(options));
+  if (!classifier.modes.includes(options.mode ?? 'binary')) {
+    throw new InvalidClassificationOptionsError(`Classifier ${classifier.name} does not support ${options.mode} mode`);
+  }
+  if (options.thresholdMethod && !classifier.thresholdMethods.includes(options.thresholdMethod)) {
+    throw new InvalidClassificationOptionsError(`Classifier ${classifier.name} does not support the ${options.thresholdMethod} threshold`);
+  }
+
+  return options;
+};
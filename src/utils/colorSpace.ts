@@ -0,0 +1,52 @@
+// Luminance definitions and gray-world white balance for 8-bit sRGB pixels
+
+export type ChannelGains = [number, number, number]; // R, G, B multipliers
+
+// Rec.709 weight of each channel, applied to the gamma-encoded values (luma) or to linear light (Y)
+export const REC709_WEIGHTS: [number, number, number] = [0.2126, 0.7152, 0.0722];
+
+// White balance never scales a channel by more than this factor (or its inverse)
+const MAX_GAIN = 4;
+
+/**
+ * sRGB channel value (0-255) to linear light (0-1)
+ */
+export const srgbToLinear = (value: number): number => {
+  const channel = value / 255;
+  return channel <= 0.04045 ? channel / 12.92 : Math.pow((channel + 0.055) / 1.055, 2.4);
+};
+
+/**
+ * CIE L* (0-100) of a relative luminance Y (0-1), D65 white
+ */
+export const lightness = (y: number): number => {
+  return y > 216 / 24389 ? 116 * Math.cbrt(y) - 16 : (24389 / 27) * y;
+};
+
+/**
+ * Gray-world gains: scale each channel so the mean color becomes a neutral gray
+ * @param sums Sum of R, G and B over the reference pixels
+ */
+export const grayWorldGains = (sums: [number, number, number]): ChannelGains => {
+  const gray = (sums[0] + sums[1] + sums[2]) / 3;
+  return sums.map(sum => sum > 0 ? Math.min(MAX_GAIN, Math.max(1 / MAX_GAIN, gray / sum)) : 1) as ChannelGains;
+};
+
+/**
+ * Copy of an image with its channels multiplied by the gains (clamped to 0-255)
+ */
+export const applyChannelGains = (imageData: ImageData, gains: ChannelGains): ImageData => {
+  const lookups = gains.map(gain => Uint8ClampedArray.from({ length: 256 }, (_, value) => Math.round(value * gain)));
+  const [red, green, blue] = lookups;
+  const source = imageData.data;
+  const data = new Uint8ClampedArray(source.length);
+
+  for (let i = 0; i < source.length; i += 4) {
+    data[i] = red[source[i]];
+    data[i + 1] = green[source[i + 1]];
+    data[i + 2] = blue[source[i + 2]];
+    data[i + 3] = source[i + 3];
+  }
+
+  return { width: imageData.width, height: imageData.height, data, colorSpace: 'srgb' } as ImageData;
+};
@@ -1,5 +1,7 @@
 // Application constants
 
+import { ExclusionClass, LuminanceModel, SegmentationClass, ThresholdMethod, VegetationClass, VegetationIndex } from '../types';
+
 export const UI_CONFIG = {
   tabs: [
     { id: 'analizar', label: 'Analizar Imágenes', icon: 'upload' },
@@ -7,3 +9,84 @@ export const UI_CONFIG = {
     { id: 'historial', label: 'Historial', icon: 'bar-chart-3' },
   ] as const,
 };
+
+// Binary light/shadow overlay. The index in this array is the value written to the classification map.
+export const BINARY_CLASSES: { label: string; color: [number, number, number] }[] = [
+  { label: 'Luz', color: [0, 0, 255] },
+  { label: 'Sombra', color: [0, 255, 0] },
+];
+
+export interface SegmentationClassInfo {
+  id: SegmentationClass;
+  label: string;
+  light: boolean | null; // null = neither light nor shadow (e.g. trunks)
+  color: [number, number, number]; // Overlay color in the processed image
+  prototype: [number, number, number]; // Mean RGB of the labelled pixels
+}
+
+// Five-class segmentation. The index in this array is the value written to the classification map.
+// Prototypes are the mean RGB of every pixel inside the labelme polygons of dataset/anotaciones.
+export const SEGMENTATION_CLASSES: SegmentationClassInfo[] = [
+  { id: 'MALLA_LUZ', label: 'Malla Luz', light: true, color: [74, 222, 128], prototype: [186, 185, 176] },
+  { id: 'MALLA_SOMBRA', label: 'Malla Sombra', light: false, color: [22, 163, 74], prototype: [63, 72, 71] },
+  { id: 'SUELO_LUZ', label: 'Suelo Luz', light: true, color: [250, 204, 21], prototype: [213, 188, 152] },
+  { id: 'SUELO_SOMBRA', label: 'Suelo Sombra', light: false, color: [107, 114, 128], prototype: [73, 71, 60] },
+  { id: 'TRONCO', label: 'Tronco', light: null, color: [120, 53, 15], prototype: [85, 67, 50] },
+];
+
+// Same surface under the opposite lighting, used when the morphological cleanup flips a multiclass pixel
+export const LIGHT_SHADOW_COUNTERPARTS: Partial<Record<SegmentationClass, SegmentationClass>> = {
+  MALLA_LUZ: 'MALLA_SOMBRA',
+  MALLA_SOMBRA: 'MALLA_LUZ',
+  SUELO_LUZ: 'SUELO_SOMBRA',
+  SUELO_SOMBRA: 'SUELO_LUZ',
+};
+
+export const THRESHOLD_METHODS: { id: ThresholdMethod; label: string }[] = [
+  { id: 'fixed', label: 'Fijo (calibrado)' },
+  { id: 'otsu', label: 'Adaptativo (Otsu)' },
+  { id: 'valley', label: 'Adaptativo (valle del histograma)' },
+];
+
+export const LUMINANCE_MODELS: { id: LuminanceModel; label: string }[] = [
+  { id: 'mean', label: 'Promedio RGB' },
+  { id: 'rec709', label: 'Luma Rec.709' },
+  { id: 'hsv', label: 'Valor HSV (V)' },
+  { id: 'lab', label: 'CIE Lab (L*)' },
+];
+
+export const VEGETATION_INDICES: { id: VegetationIndex; label: string }[] = [
+  { id: 'exg', label: 'Exceso de verde (ExG)' },
+  { id: 'vari', label: 'VARI' },
+];
+
+// Foliage/soil layer. The index in this array is the value written to the layer map.
+export const VEGETATION_CLASSES: { id: VegetationClass; label: string; color: [number, number, number] }[] = [
+  { id: 'FOLLAJE_LUZ', label: 'Follaje al sol', color: [132, 204, 22] },
+  { id: 'FOLLAJE_SOMBRA', label: 'Follaje en sombra', color: [20, 83, 45] },
+  { id: 'SUELO_LUZ', label: 'Suelo al sol', color: [250, 204, 21] },
+  { id: 'SUELO_SOMBRA', label: 'Suelo en sombra', color: [120, 53, 15] },
+];
+
+// Classification map value of pixels removed by an exclusion class
+export const EXCLUDED_PIXEL = 255;
+export const EXCLUDED_COLOR: [number, number, number] = [236, 72, 153];
+
+// Classification map value of pixels outside the user-drawn regions of interest
+// (rendered as the dimmed original pixel)
+export const OUTSIDE_ROI_PIXEL = 254;
+export const OUTSIDE_ROI_DIMMING = 0.3;
+
+// Pixels whose classification confidence (0-1) is below this value are reported as ambiguous
+export const AMBIGUOUS_CONFIDENCE = 0.25;
+// Results with more ambiguous pixels than this (percentage) are flagged for review
+export const AMBIGUOUS_WARNING_PERCENTAGE = 15;
+
+// Upper bounds (percentage of the counted pixels) of the light patch size classes; the last class has no bound
+export const LIGHT_PATCH_SIZE_CLASSES = [0.01, 0.1, 1, 10];
+
+export const EXCLUSION_CLASSES: { id: ExclusionClass; label: string }[] = [
+  { id: 'TRONCO', label: 'Tronco' },
+  { id: 'CIELO', label: 'Cielo' },
+  { id: 'OPERADOR', label: 'Pies/sombra del operador' },
+];
@@ -1,11 +1,39 @@
 // Server-side EXIF extraction for Node.js
 import * as piexif from 'piexifjs';
+import { parseUtcOffset } from './solarPosition';
 
 export interface DateTimeInfo {
   date: string;
   time: string;
+  utc?: string; // ISO instant from the GPS date/time stamps (UTC), when the camera recorded them
+  utcOffset?: number; // Hours, from the EXIF offset tag of the date/time field used
 }
 
+// EXIF 2.31 offset of each date/time field ("±HH:MM"); piexifjs drops tags missing from its table, so they are added
+const OFFSET_TAGS = {
+  DateTime: { tag: 0x9010, name: 'OffsetTime' },
+  DateTimeOriginal: { tag: 0x9011, name: 'OffsetTimeOriginal' },
+  DateTimeDigitized: { tag: 0x9012, name: 'OffsetTimeDigitized' }
+};
+for (const { tag, name } of Object.values(OFFSET_TAGS)) {
+  piexif.TAGS.Exif[tag] ??= { name, type: 'Ascii' };
+}
+
+// UTC instant of the GPS date stamp ("YYYY:MM:DD") and time stamp ([h, m, s] rationals)
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const readGpsTimestamp = (gps: any): string | undefined => {
+  const dateStamp = gps?.[piexif.GPSIFD.GPSDateStamp];
+  const timeStamp = gps?.[piexif.GPSIFD.GPSTimeStamp];
+  if (typeof dateStamp !== 'string' || !Array.isArray(timeStamp) || timeStamp.length !== 3) {
+    return undefined;
+  }
+
+  const [year, month, day] = dateStamp.split(':').map(Number);
+  const [hours, minutes, seconds] = timeStamp.map(([numerator, denominator]: [number, number]) => numerator / (denominator || 1));
+  const instant = new Date(Date.UTC(year, month - 1, day, hours, minutes, 0) + seconds * 1000);
+  return Number.isNaN(instant.getTime()) ? undefined : instant.toISOString();
+};
+
 // Extract date and time from EXIF data on server-side
 export const extractDateTimeFromImageServer = async (file: File): Promise<DateTimeInfo | null> => {
   try {
@@ -30,6 +58,10 @@ export const extractDateTimeFromImageServer = async (file: File): Promise<DateTi
     const dateTimeDigitized = (exifData as any)['Exif']?.[piexif.ExifIFD.DateTimeDigitized];
     
     const dateTimeValue = dateTimeOriginal || dateTimeDigitized || dateTime;
+    const offsetTag = (dateTimeOriginal ? OFFSET_TAGS.DateTimeOriginal : dateTimeDigitized ? OFFSET_TAGS.DateTimeDigitized : OFFSET_TAGS.DateTime).tag;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const offsetValue = (exifData as any)['Exif']?.[offsetTag];
+    const utcOffset = typeof offsetValue === 'string' ? parseUtcOffset(offsetValue) ?? undefined : undefined;
     
     if (dateTimeValue && typeof dateTimeValue === 'string') {
       // EXIF date format: "YYYY:MM:DD HH:MM:SS"
@@ -42,7 +74,8 @@ export const extractDateTimeFromImageServer = async (file: File): Promise<DateTi
         const date = `${day}/${month}/${year}`;
         const time = `${hour}:${minute}:${second}`;
         
-        const result: DateTimeInfo = { date, time };
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const result: DateTimeInfo = { date, time, utc: readGpsTimestamp((exifData as any)['GPS']), utcOffset };
         
         console.log(`📅 Date/Time found for ${file.name}: ${date} ${time}`);
         return result;
@@ -5,6 +5,7 @@ declare global {
     EXIF: {
       getData: (file: File, callback: (this: File) => void) => void;
       getTag: (file: File, tag: string) => number[] | string | undefined;
+      Tags: Record<number, string>;
     };
   }
 }
@@ -97,8 +98,29 @@ export const formatCoordinates = (coordinates: GpsCoordinates): string => {
 export interface DateTimeInfo {
   date: string;
   time: string;
+  utc?: string; // ISO instant from the GPS date/time stamps (UTC), when the camera recorded them
+  utcOffset?: string; // EXIF offset of the date/time field used ("±HH:MM"), parsed on the server
 }
 
+// EXIF 2.31 offset tag of each date/time field; exif.js drops tags missing from its table, so they are added
+const OFFSET_TAGS = {
+  DateTime: { tag: 0x9010, name: 'OffsetTime' },
+  DateTimeOriginal: { tag: 0x9011, name: 'OffsetTimeOriginal' },
+  DateTimeDigitized: { tag: 0x9012, name: 'OffsetTimeDigitized' }
+};
+
+// UTC instant of the GPS date stamp ("YYYY:MM:DD") and time stamp ([h, m, s])
+const readGpsTimestamp = (dateStamp: unknown, timeStamp: unknown): string | undefined => {
+  if (typeof dateStamp !== 'string' || !Array.isArray(timeStamp) || timeStamp.length !== 3) {
+    return undefined;
+  }
+
+  const [year, month, day] = dateStamp.split(':').map(Number);
+  const [hours, minutes, seconds] = timeStamp.map(Number);
+  const instant = new Date(Date.UTC(year, month - 1, day, hours, minutes, 0) + seconds * 1000);
+  return Number.isNaN(instant.getTime()) ? undefined : instant.toISOString();
+};
+
 // Extract date and time from EXIF data
 export const extractDateTimeFromImage = (file: File): Promise<DateTimeInfo | null> => {
   return new Promise((resolve) => {
@@ -116,6 +138,10 @@ export const extractDateTimeFromImage = (file: File): Promise<DateTimeInfo | nul
       }
     }
 
+    for (const { tag, name } of Object.values(OFFSET_TAGS)) {
+      window.EXIF.Tags[tag] ??= name;
+    }
+
     const img = new Image();
     const url = URL.createObjectURL(file);
     
@@ -132,6 +158,11 @@ export const extractDateTimeFromImage = (file: File): Promise<DateTimeInfo | nul
           
           // Try different EXIF date fields
           const dateTimeValue = dateTimeOriginal || dateTimeDigitized || dateTime;
+          const offsetTag = dateTimeOriginal ? OFFSET_TAGS.DateTimeOriginal : dateTimeDigitized ? OFFSET_TAGS.DateTimeDigitized : OFFSET_TAGS.DateTime;
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          const offsetValue = (window.EXIF.getTag as any)(img, offsetTag.name);
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          const utc = readGpsTimestamp((window.EXIF.getTag as any)(img, 'GPSDateStamp'), (window.EXIF.getTag as any)(img, 'GPSTimeStamp'));
           
           if (dateTimeValue && typeof dateTimeValue === 'string') {
             // EXIF date format: "YYYY:MM:DD HH:MM:SS"
@@ -144,7 +175,12 @@ export const extractDateTimeFromImage = (file: File): Promise<DateTimeInfo | nul
               const date = `${day}/${month}/${year}`;
               const time = `${hour}:${minute}:${second}`;
               
-              const result: DateTimeInfo = { date, time };
+              const result: DateTimeInfo = {
+                date,
+                time,
+                utc,
+                utcOffset: typeof offsetValue === 'string' ? offsetValue : undefined
+              };
               
               // Cache the result
               if (typeof window !== 'undefined' && (window as unknown as { dateTimeCache?: Map<string, unknown> }).dateTimeCache) {
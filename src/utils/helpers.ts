@@ -126,7 +126,9 @@ export const exportToCSV = (data: Record<string, unknown>[], filename: string):
     headers.join(','),
     ...data.map(row => 
       headers.map(header => {
-        const value = row[header];
+        const cell = row[header];
+        // Nested values (grids, ...) as JSON, missing ones as empty cells
+        const value = cell !== null && typeof cell === 'object' ? JSON.stringify(cell) : cell ?? '';
         // Escape values that contain commas or quotes
         if (typeof value === 'string' && (value.includes(',') || value.includes('"'))) {
           return `"${value.replace(/"/g, '""')}"`;
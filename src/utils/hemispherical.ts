@@ -0,0 +1,115 @@
+// Geometry and gap fraction analysis of upward-facing hemispherical (fisheye) canopy photos
+// The lens is taken as equidistant (polar): the zenith angle grows linearly from 0° at the circle's center to 90° at its edge.
+
+import type { RoiPolygon } from '../types';
+
+export const DEFAULT_ZENITH_RINGS = 5;
+export const DEFAULT_MAX_ZENITH = 75; // Degrees; near the horizon the rings are mostly blocked by rows and terrain
+
+// Vertices of the polygon that stands for the image circle (radius error below 0.01%)
+const CIRCLE_VERTICES = 360;
+
+export interface HemisphericalOptions {
+  centerX?: number; // Center of the image circle as a fraction of the width (default 0.5)
+  centerY?: number; // Center of the image circle as a fraction of the height (default 0.5)
+  radius?: number; // Radius of the image circle (90° zenith) as a fraction of the shorter side (default 0.5)
+  rings?: number; // Zenith rings of equal width between 0° and maxZenith (default DEFAULT_ZENITH_RINGS)
+  maxZenith?: number; // Outer zenith angle of the last ring, degrees (default DEFAULT_MAX_ZENITH)
+}
+
+export interface FisheyeCircle {
+  x: number; // Center, pixels
+  y: number;
+  radius: number; // Pixels
+}
+
+export interface ZenithRing {
+  fromZenith: number; // Degrees
+  toZenith: number;
+  pixels: number; // Counted pixels in the ring
+  gapFraction: number | null; // Share of sky pixels, null when the ring has no counted pixels
+}
+
+/**
+ * Image circle in pixels
+ */
+export const fisheyeCircle = (width: number, height: number, options: HemisphericalOptions): FisheyeCircle => ({
+  x: (options.centerX ?? 0.5) * width,
+  y: (options.centerY ?? 0.5) * height,
+  radius: (options.radius ?? 0.5) * Math.min(width, height)
+});
+
+/**
+ * Image circle as an ROI polygon (normalized coordinates, may reach outside the image)
+ */
+export const circlePolygon = (circle: FisheyeCircle, width: number, height: number): RoiPolygon => {
+  return Array.from({ length: CIRCLE_VERTICES }, (_, vertex): [number, number] => {
+    const angle = (2 * Math.PI * vertex) / CIRCLE_VERTICES;
+    return [(circle.x + circle.radius * Math.cos(angle)) / width, (circle.y + circle.radius * Math.sin(angle)) / height];
+  });
+};
+
+/**
+ * Gap fraction of every zenith ring of a binary map (0 = sky, 1 = canopy; any other value is not counted)
+ */
+export const zenithRingGapFractions = (
+  classificationMap: Uint8Array,
+  width: number,
+  height: number,
+  circle: FisheyeCircle,
+  rings: number,
+  maxZenith: number
+): ZenithRing[] => {
+  const ringWidth = maxZenith / rings;
+  const skyCounts = new Float64Array(rings);
+  const pixelCounts = new Float64Array(rings);
+
+  // Only the rows and columns the outer ring can reach
+  const outerRadius = (circle.radius * maxZenith) / 90;
+  const top = Math.max(0, Math.floor(circle.y - outerRadius));
+  const bottom = Math.min(height - 1, Math.ceil(circle.y + outerRadius));
+  const left = Math.max(0, Math.floor(circle.x - outerRadius));
+  const right = Math.min(width - 1, Math.ceil(circle.x + outerRadius));
+
+  for (let y = top; y <= bottom; y++) {
+    const dy = y + 0.5 - circle.y;
+    for (let x = left, pixel = y * width + left; x <= right; x++, pixel++) {
+      const value = classificationMap[pixel];
+      if (value > 1) continue;
+      const dx = x + 0.5 - circle.x;
+      const zenith = (90 * Math.sqrt(dx * dx + dy * dy)) / circle.radius;
+      const ring = Math.floor(zenith / ringWidth);
+      if (ring >= rings) continue;
+      pixelCounts[ring]++;
+      if (value === 0) skyCounts[ring]++;
+    }
+  }
+
+  return Array.from({ length: rings }, (_, ring) => ({
+    fromZenith: ring * ringWidth,
+    toZenith: (ring + 1) * ringWidth,
+    pixels: pixelCounts[ring],
+    gapFraction: pixelCounts[ring] > 0 ? skyCounts[ring] / pixelCounts[ring] : null
+  }));
+};
+
+/**
+ * Effective leaf area index from the ring gap fractions (Miller's integral, as in the LAI-2000):
+ * LAIe = 2 Σ -ln P(θ) cos θ W(θ), with W proportional to sin θ dθ over the measured rings.
+ * A ring without sky counts as half a sky pixel, so fully closed rings give a finite value.
+ * @returns null when no ring has counted pixels
+ */
+export const effectiveLai = (rings: ZenithRing[]): number | null => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  let weightedSum = 0;
+  let totalWeight = 0;
+  for (const ring of rings) {
+    if (ring.gapFraction === null) continue;
+    const zenith = toRadians((ring.fromZenith + ring.toZenith) / 2);
+    const weight = Math.cos(toRadians(ring.fromZenith)) - Math.cos(toRadians(ring.toZenith)); // ∫ sin θ dθ over the ring
+    const gapFraction = Math.max(ring.gapFraction, 0.5 / ring.pixels);
+    weightedSum += -Math.log(gapFraction) * Math.cos(zenith) * weight;
+    totalWeight += weight;
+  }
+  return totalWeight > 0 ? (2 * weightedSum) / totalWeight : null;
+};
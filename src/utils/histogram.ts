@@ -0,0 +1,109 @@
+// Histogram-based threshold selection for 256-bin histograms
+
+/**
+ * Otsu's method: the bin that maximises the between-class variance
+ * @returns Last bin of the lower class (pixels with value > threshold form the upper class)
+ */
+export const otsuThreshold = (histogram: number[]): number => {
+  const total = histogram.reduce((sum, count) => sum + count, 0);
+  if (total === 0) return 0;
+
+  const weightedTotal = histogram.reduce((sum, count, value) => sum + value * count, 0);
+  let lowerCount = 0;
+  let lowerWeighted = 0;
+  let bestVariance = -1;
+  let threshold = 0;
+
+  for (let value = 0; value < histogram.length - 1; value++) {
+    lowerCount += histogram[value];
+    if (lowerCount === 0) continue;
+
+    const upperCount = total - lowerCount;
+    if (upperCount === 0) break;
+
+    lowerWeighted += value * histogram[value];
+    const lowerMean = lowerWeighted / lowerCount;
+    const upperMean = (weightedTotal - lowerWeighted) / upperCount;
+    const variance = lowerCount * upperCount * (lowerMean - upperMean) ** 2;
+
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = value;
+    }
+  }
+
+  return threshold;
+};
+
+/**
+ * Bimodal valley search (Prewitt & Mendelsohn): smooth the histogram until it has exactly
+ * two peaks and return the minimum between them
+ * @returns Valley bin, or null if the histogram never becomes bimodal
+ */
+export const valleyThreshold = (histogram: number[], maxIterations: number = 1000): number | null => {
+  let smoothed = histogram.slice();
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const peaks: number[] = [];
+    for (let value = 1; value < smoothed.length - 1; value++) {
+      if (smoothed[value - 1] < smoothed[value] && smoothed[value + 1] < smoothed[value]) {
+        peaks.push(value);
+      }
+    }
+
+    if (peaks.length === 2) {
+      let valley = peaks[0];
+      for (let value = peaks[0]; value <= peaks[1]; value++) {
+        if (smoothed[value] < smoothed[valley]) {
+          valley = value;
+        }
+      }
+      return valley;
+    }
+
+    if (peaks.length < 2) {
+      return null;
+    }
+
+    // 3-bin moving average
+    smoothed = smoothed.map((count, value) => {
+      const previous = smoothed[Math.max(0, value - 1)];
+      const next = smoothed[Math.min(smoothed.length - 1, value + 1)];
+      return (previous + count + next) / 3;
+    });
+  }
+
+  return null;
+};
+
+export interface HistogramStatistics {
+  mean: number;
+  median: number;
+  percentiles: Record<'p5' | 'p25' | 'p75' | 'p95', number>; // Bin below which that share of the pixels falls
+}
+
+/**
+ * Mean, median and quartile/tail percentiles of a 256-bin histogram (in bins)
+ */
+export const histogramStatistics = (histogram: number[]): HistogramStatistics => {
+  const total = histogram.reduce((sum, count) => sum + count, 0);
+  const mean = total > 0 ? histogram.reduce((sum, count, value) => sum + value * count, 0) / total : 0;
+
+  // First bin whose cumulative count reaches the share
+  const percentile = (share: number): number => {
+    let cumulative = 0;
+    for (let value = 0; value < histogram.length; value++) {
+      cumulative += histogram[value];
+      if (cumulative > 0 && cumulative >= share * total) {
+        return value;
+      }
+    }
+    return 0;
+  };
+
+  return {
+    mean,
+    median: percentile(0.5),
+    percentiles: { p5: percentile(0.05), p25: percentile(0.25), p75: percentile(0.75), p95: percentile(0.95) }
+  };
+};
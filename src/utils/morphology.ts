@@ -0,0 +1,175 @@
+// Morphological cleanup and connected regions of a three-state row-major mask: foreground, background and fixed pixels
+// Fixed pixels (excluded, outside the ROI, ...) never change and count as neither foreground nor background.
+
+export const MASK_BACKGROUND = 0;
+export const MASK_FOREGROUND = 1;
+export const MASK_FIXED = 2;
+
+export interface CleanupOptions {
+  opening?: number; // Radius (pixels) of the square opening: removes foreground specks and thin strands
+  closing?: number; // Radius (pixels) of the square closing: removes background specks and thin cracks
+  minArea?: number; // Connected regions (either state) smaller than this many pixels take the other state
+  fillHoles?: number; // Background holes enclosed by foreground up to this many pixels become foreground
+}
+
+/**
+ * 1 where a pixel of the given state lies in the (2 * radius + 1)² window, with running counts per row and column
+ */
+const windowContains = (mask: Uint8Array, width: number, height: number, state: number, radius: number): Uint8Array => {
+  const rows = new Uint8Array(mask.length);
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    let count = 0;
+    for (let x = 0; x < Math.min(radius, width); x++) {
+      if (mask[row + x] === state) count++;
+    }
+    for (let x = 0; x < width; x++) {
+      if (x + radius < width && mask[row + x + radius] === state) count++;
+      rows[row + x] = count > 0 ? 1 : 0;
+      if (x - radius >= 0 && mask[row + x - radius] === state) count--;
+    }
+  }
+
+  const result = new Uint8Array(mask.length);
+  const counts = new Int32Array(width);
+  for (let y = 0; y < Math.min(radius, height); y++) {
+    for (let x = 0; x < width; x++) counts[x] += rows[y * width + x];
+  }
+  for (let y = 0; y < height; y++) {
+    if (y + radius < height) {
+      for (let x = 0, pixel = (y + radius) * width; x < width; x++, pixel++) counts[x] += rows[pixel];
+    }
+    for (let x = 0, pixel = y * width; x < width; x++, pixel++) {
+      result[pixel] = counts[x] > 0 ? 1 : 0;
+    }
+    if (y - radius >= 0) {
+      for (let x = 0, pixel = (y - radius) * width; x < width; x++, pixel++) counts[x] -= rows[pixel];
+    }
+  }
+  return result;
+};
+
+/**
+ * Pixels of state `from` with a pixel of state `trigger` in their window take state `trigger`
+ * (foreground trigger = dilation of the foreground, background trigger = its erosion)
+ */
+const spread = (mask: Uint8Array, width: number, height: number, from: number, trigger: number, radius: number): void => {
+  const near = windowContains(mask, width, height, trigger, radius);
+  for (let pixel = 0; pixel < mask.length; pixel++) {
+    if (mask[pixel] === from && near[pixel]) {
+      mask[pixel] = trigger;
+    }
+  }
+};
+
+/**
+ * Walk the 4-connected regions of non-fixed pixels
+ * @param onRegion Called with the state, the region's pixels (regionPixels[0..size), reused between calls), its size
+ * and whether it touches the image border or a fixed pixel; it may change the region's pixels in the mask
+ */
+const forEachRegion = (
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  onRegion: (state: number, regionPixels: Int32Array, size: number, touchesBoundary: boolean) => void
+): void => {
+  const visited = new Uint8Array(mask.length);
+  const queue = new Int32Array(mask.length);
+
+  for (let seed = 0; seed < mask.length; seed++) {
+    const state = mask[seed];
+    if (visited[seed] || state === MASK_FIXED) continue;
+
+    // Breadth-first fill of the region; its pixels stay in queue[0..tail)
+    let head = 0;
+    let tail = 0;
+    let touchesBoundary = false;
+    const visit = (neighbour: number) => {
+      if (visited[neighbour]) return;
+      if (mask[neighbour] === MASK_FIXED) {
+        touchesBoundary = true;
+      } else if (mask[neighbour] === state) {
+        visited[neighbour] = 1;
+        queue[tail++] = neighbour;
+      }
+    };
+
+    visited[seed] = 1;
+    queue[tail++] = seed;
+    while (head < tail) {
+      const pixel = queue[head++];
+      const x = pixel % width;
+      const y = (pixel - x) / width;
+      if (x === 0 || y === 0 || x === width - 1 || y === height - 1) touchesBoundary = true;
+
+      if (x > 0) visit(pixel - 1);
+      if (x < width - 1) visit(pixel + 1);
+      if (y > 0) visit(pixel - width);
+      if (y < height - 1) visit(pixel + width);
+    }
+
+    onRegion(state, queue, tail, touchesBoundary);
+  }
+};
+
+/**
+ * Flip the 4-connected regions that match the predicate
+ * @param shouldFlip Called with the state, size and whether the region touches the image border or a fixed pixel
+ */
+const flipRegions = (
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  shouldFlip: (state: number, size: number, touchesBoundary: boolean) => boolean
+): void => {
+  forEachRegion(mask, width, height, (state, regionPixels, size, touchesBoundary) => {
+    if (shouldFlip(state, size, touchesBoundary)) {
+      const flipped = state === MASK_FOREGROUND ? MASK_BACKGROUND : MASK_FOREGROUND;
+      for (let i = 0; i < size; i++) mask[regionPixels[i]] = flipped;
+    }
+  });
+};
+
+/**
+ * Opening, closing, small region removal and hole filling, in that order, in place
+ */
+export const cleanMask = (mask: Uint8Array, width: number, height: number, options: CleanupOptions): void => {
+  if (options.opening && options.opening > 0) {
+    spread(mask, width, height, MASK_FOREGROUND, MASK_BACKGROUND, options.opening); // Erode
+    spread(mask, width, height, MASK_BACKGROUND, MASK_FOREGROUND, options.opening); // Dilate
+  }
+  if (options.closing && options.closing > 0) {
+    spread(mask, width, height, MASK_BACKGROUND, MASK_FOREGROUND, options.closing);
+    spread(mask, width, height, MASK_FOREGROUND, MASK_BACKGROUND, options.closing);
+  }
+
+  const minArea = options.minArea ?? 0;
+  if (minArea > 1) {
+    flipRegions(mask, width, height, (_, size) => size < minArea);
+  }
+
+  const maxHoleArea = options.fillHoles ?? 0;
+  if (maxHoleArea > 0) {
+    flipRegions(mask, width, height, (state, size, touchesBoundary) =>
+      state === MASK_BACKGROUND && !touchesBoundary && size <= maxHoleArea
+    );
+  }
+};
+
+/**
+ * Whether any cleanup step is enabled
+ */
+export const hasCleanup = (options: CleanupOptions | undefined): options is CleanupOptions => {
+  return !!options && ((options.opening ?? 0) > 0 || (options.closing ?? 0) > 0 || (options.minArea ?? 0) > 1 || (options.fillHoles ?? 0) > 0);
+};
+
+/**
+ * Size (pixels) of every 4-connected foreground region, in scan order of their first pixel
+ */
+export const foregroundRegionSizes = (mask: Uint8Array, width: number, height: number): number[] => {
+  const sizes: number[] = [];
+  forEachRegion(mask, width, height, (state, _, size) => {
+    if (state === MASK_FOREGROUND) sizes.push(size);
+  });
+  return sizes;
+};
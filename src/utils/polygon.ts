@@ -0,0 +1,56 @@
+// Polygon utilities shared by the dataset loader and the classifier
+
+export type Point = [number, number];
+
+/**
+ * Rasterize a polygon into a row-major mask (scanline fill, even-odd rule)
+ * A pixel belongs to the polygon when its center (x + 0.5, y + 0.5) is inside.
+ * @param polygon - Vertices in pixel coordinates
+ * @param width - Mask width
+ * @param height - Mask height
+ * @param mask - Target mask, length width * height
+ * @param value - Value written to every covered pixel (default: 1)
+ * @returns Number of pixels written
+ */
+export const rasterizePolygon = (
+  polygon: Point[],
+  width: number,
+  height: number,
+  mask: Uint8Array,
+  value: number = 1
+): number => {
+  if (polygon.length < 3) return 0;
+
+  const ys = polygon.map(([, y]) => y);
+  const minY = Math.max(0, Math.floor(Math.min(...ys)));
+  const maxY = Math.min(height - 1, Math.ceil(Math.max(...ys)));
+  const crossings: number[] = [];
+  let written = 0;
+
+  for (let y = minY; y <= maxY; y++) {
+    const centerY = y + 0.5;
+    crossings.length = 0;
+
+    // Collect the x coordinates where the scanline crosses an edge
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      const [xi, yi] = polygon[i];
+      const [xj, yj] = polygon[j];
+      if ((yi > centerY) !== (yj > centerY)) {
+        crossings.push(xi + ((centerY - yi) * (xj - xi)) / (yj - yi));
+      }
+    }
+    crossings.sort((a, b) => a - b);
+
+    // Fill between pairs of crossings
+    for (let k = 0; k + 1 < crossings.length; k += 2) {
+      const startX = Math.max(0, Math.ceil(crossings[k] - 0.5));
+      const endX = Math.min(width - 1, Math.floor(crossings[k + 1] - 0.5));
+      for (let x = startX; x <= endX; x++) {
+        mask[y * width + x] = value;
+        written++;
+      }
+    }
+  }
+
+  return written;
+};
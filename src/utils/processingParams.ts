@@ -0,0 +1,47 @@
+// Fingerprint of the settings that determine a light/shadow result
+import { ClassificationMode, ExclusionClass, LuminanceModel, ThresholdMethod } from '../types';
+import { CleanupOptions } from './morphology';
+
+export interface ProcessingParams {
+  classifier: string;
+  mode: ClassificationMode;
+  thresholdMethod?: ThresholdMethod;
+  luminance?: LuminanceModel;
+  whiteBalance?: boolean;
+  cleanup?: CleanupOptions;
+  hemispherical?: { rings: number; maxZenith: number }; // Zenith rings of a hemispherical photo (its image circle is left out like the ROI)
+  exclude: ExclusionClass[];
+  version?: string; // Model or calibration version used by the classifier
+}
+
+/**
+ * Short hash of the processing parameters: two results with the same hash were
+ * computed the same way and can be compared. The per-image ROI and the threshold
+ * an adaptive method picks for each image are deliberately left out.
+ */
+export const hashProcessingParams = (params: ProcessingParams): string => {
+  const values: unknown[] = [
+    params.classifier,
+    params.mode,
+    params.thresholdMethod ?? null,
+    [...params.exclude].sort(),
+    params.version ?? null
+  ];
+  // Options added later only enter the hash away from their defaults, so earlier hashes stay comparable
+  if (params.luminance && params.luminance !== 'mean') values.push({ luminance: params.luminance });
+  if (params.whiteBalance) values.push({ whiteBalance: true });
+  if (params.cleanup) {
+    const { opening = 0, closing = 0, minArea = 0, fillHoles = 0 } = params.cleanup;
+    values.push({ cleanup: [opening, closing, minArea, fillHoles] });
+  }
+  if (params.hemispherical) values.push({ hemispherical: [params.hemispherical.rings, params.hemispherical.maxZenith] });
+  const canonical = JSON.stringify(values);
+
+  // 32-bit FNV-1a, enough to tell parameter sets apart in the history
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < canonical.length; i++) {
+    hash ^= canonical.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
@@ -0,0 +1,186 @@
+// Sun position for a place and instant (NOAA solar calculator equations, after Meeus)
+// Accurate to a few hundredths of a degree for dates between 1800 and 2100; no atmospheric refraction.
+
+export interface SolarPosition {
+  elevation: number; // Degrees above the horizon (negative = below)
+  azimuth: number; // Degrees clockwise from north
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/**
+ * Sun elevation and azimuth seen from latitude/longitude (decimal degrees, east and north positive)
+ */
+export const computeSolarPosition = (instant: Date, latitude: number, longitude: number): SolarPosition => {
+  const julianDay = instant.getTime() / 86400000 + 2440587.5;
+  const t = (julianDay - 2451545) / 36525; // Julian centuries since J2000
+
+  const meanLongitude = (280.46646 + t * (36000.76983 + t * 0.0003032)) % 360;
+  const meanAnomaly = toRadians(357.52911 + t * (35999.05029 - 0.0001537 * t));
+  const eccentricity = 0.016708634 - t * (0.000042037 + 0.0000001267 * t);
+  const center = Math.sin(meanAnomaly) * (1.914602 - t * (0.004817 + 0.000014 * t))
+    + Math.sin(2 * meanAnomaly) * (0.019993 - 0.000101 * t)
+    + Math.sin(3 * meanAnomaly) * 0.000289;
+
+  const omega = toRadians(125.04 - 1934.136 * t);
+  const apparentLongitude = toRadians(meanLongitude + center - 0.00569 - 0.00478 * Math.sin(omega));
+  const meanObliquity = 23 + (26 + (21.448 - t * (46.815 + t * (0.00059 - t * 0.001813))) / 60) / 60;
+  const obliquity = toRadians(meanObliquity + 0.00256 * Math.cos(omega));
+  const declination = Math.asin(Math.sin(obliquity) * Math.sin(apparentLongitude));
+
+  // Equation of time (minutes)
+  const y = Math.tan(obliquity / 2) ** 2;
+  const l0 = toRadians(meanLongitude);
+  const equationOfTime = 4 * toDegrees(
+    y * Math.sin(2 * l0)
+    - 2 * eccentricity * Math.sin(meanAnomaly)
+    + 4 * eccentricity * y * Math.sin(meanAnomaly) * Math.cos(2 * l0)
+    - 0.5 * y * y * Math.sin(4 * l0)
+    - 1.25 * eccentricity * eccentricity * Math.sin(2 * meanAnomaly)
+  );
+
+  const utcMinutes = instant.getUTCHours() * 60 + instant.getUTCMinutes() + instant.getUTCSeconds() / 60;
+  const trueSolarTime = (((utcMinutes + equationOfTime + 4 * longitude) % 1440) + 1440) % 1440;
+  const hourAngle = toRadians(trueSolarTime / 4 - 180);
+
+  const phi = toRadians(latitude);
+  const cosZenith = Math.sin(phi) * Math.sin(declination) + Math.cos(phi) * Math.cos(declination) * Math.cos(hourAngle);
+  const zenith = Math.acos(Math.min(1, Math.max(-1, cosZenith)));
+  const azimuth = toDegrees(Math.atan2(
+    Math.sin(hourAngle),
+    Math.cos(hourAngle) * Math.sin(phi) - Math.tan(declination) * Math.cos(phi)
+  )) + 180;
+
+  return { elevation: 90 - toDegrees(zenith), azimuth: azimuth % 360 };
+};
+
+/**
+ * UTC offset (hours) of the nominal time zone of a longitude, the last resort when nothing else gives the photo's
+ * zone: civil zones often differ (central Chile lies in the -5 band but uses -4, -3 in summer) and daylight saving is ignored
+ */
+export const estimateUtcOffset = (longitude: number): number => Math.round(longitude / 15);
+
+/**
+ * UTC offset in hours of "±HH:MM" (EXIF OffsetTime* tags), "±HHMM" or "±H" (hours, may be fractional)
+ * @returns null when the value cannot be parsed or lies outside -14..+14 hours
+ */
+export const parseUtcOffset = (value: string): number | null => {
+  const match = value.trim().match(/^([+-])?(\d{1,2})(?::?(\d{2})|\.(\d+))?$/);
+  if (!match) return null;
+
+  const [, sign, hours, minutes, fraction] = match;
+  if (minutes && Number(minutes) >= 60) return null;
+  const magnitude = Number(hours) + (minutes ? Number(minutes) / 60 : fraction ? Number(`0.${fraction}`) : 0);
+  const offset = sign === '-' ? -magnitude : magnitude;
+  return Math.abs(offset) <= 14 ? offset : null;
+};
+
+/**
+ * Instant of a local date ("DD/MM/YYYY") and time ("HH:MM:SS") at the given UTC offset (hours)
+ * @returns null when the date or time cannot be parsed
+ */
+export const localDateTimeToUtc = (date: string, time: string, utcOffset: number): Date | null => {
+  const [day, month, year] = date.split('/').map(Number);
+  const [hours, minutes, seconds = 0] = time.split(':').map(Number);
+  if ([day, month, year, hours, minutes, seconds].some(Number.isNaN)) {
+    return null;
+  }
+
+  const instant = new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds) - utcOffset * 3600000);
+  return Number.isNaN(instant.getTime()) ? null : instant;
+};
+
+// Where the UTC instant of a photo came from, most to least reliable
+export type PhotoTimeSource = 'gps' | 'exif_offset' | 'declared' | 'longitude';
+
+export interface PhotoSolarPosition extends SolarPosition {
+  utcTime: string; // ISO instant the position was computed for
+  timeSource: PhotoTimeSource;
+  estimatedTimeZone: boolean; // true = local EXIF time converted with estimateUtcOffset (timeSource 'longitude')
+}
+
+/**
+ * Sun position when a photo was taken, from its EXIF date/time and GPS coordinates
+ * The UTC instant comes from the GPS time stamp, else the local time with the EXIF offset (OffsetTimeOriginal),
+ * else with the declared offset, and only then with the nominal zone of the longitude.
+ * @param declaredUtcOffset Offset of the photos' local time (hours) given by the user
+ * @returns null when the date or time cannot be parsed
+ */
+export const computePhotoSolarPosition = (
+  dateTime: { date: string; time: string; utc?: string; utcOffset?: number },
+  latitude: number,
+  longitude: number,
+  declaredUtcOffset?: number
+): PhotoSolarPosition | null => {
+  let timeSource: PhotoTimeSource;
+  let instant: Date | null;
+  if (dateTime.utc) {
+    timeSource = 'gps';
+    instant = new Date(dateTime.utc);
+  } else {
+    const offsets: [PhotoTimeSource, number | undefined][] = [
+      ['exif_offset', dateTime.utcOffset],
+      ['declared', declaredUtcOffset],
+      ['longitude', estimateUtcOffset(longitude)]
+    ];
+    const [source, utcOffset] = offsets.find(([, offset]) => offset !== undefined) as [PhotoTimeSource, number];
+    timeSource = source;
+    instant = localDateTimeToUtc(dateTime.date, dateTime.time, utcOffset);
+  }
+  if (!instant || Number.isNaN(instant.getTime())) {
+    return null;
+  }
+
+  return {
+    ...computeSolarPosition(instant, latitude, longitude),
+    utcTime: instant.toISOString(),
+    timeSource,
+    estimatedTimeZone: timeSource === 'longitude'
+  };
+};
+
+// Normalized light index: the sunlit share of a photo depends on the hour, because the lower the sun the longer
+// its path through the canopy. The canopy is modelled as a Beer–Lambert medium with a spherical leaf angle
+// distribution, so the gap fraction towards a sun at elevation h is P(h) = P(90°)^(1 / sin h), and the sunlit
+// share of the photo is taken as P at the elevation it was taken at. Every photo is brought to the same reference
+// condition (sun overhead, clear sky); the capture elevation only enters through the inversion to P(90°).
+
+// Clear-sky diffuse horizontal irradiance as a fraction of the direct normal irradiance
+const CLEAR_SKY_DIFFUSE_RATIO = 0.1;
+// Elevation whose gap fraction stands for the whole sky (57.5° zenith: independent of the leaf angle distribution)
+const DIFFUSE_GAP_ELEVATION = 32.5;
+// Below this elevation the sunflecks are too faint and stretched for the index to mean anything
+export const MIN_NORMALIZATION_ELEVATION = 5;
+
+/**
+ * Expected share of the clear-sky light on a horizontal surface that comes straight from the sun (0-1)
+ */
+const expectedBeamFraction = (elevation: number): number => {
+  if (elevation <= 0) return 0;
+  const sinElevation = Math.sin(toRadians(elevation));
+  return sinElevation / (sinElevation + CLEAR_SKY_DIFFUSE_RATIO);
+};
+
+/**
+ * Light percentage the same canopy would let through with the sun overhead on a clear day: the sunlit share is
+ * converted to the canopy's vertical gap fraction, and direct and diffuse light are weighted by the expected
+ * beam fraction of an overhead sun. The weights are those of the reference sun, not of the capture elevation:
+ * weighting by the hour's own beam fraction would make the index depend on the hour again, which is what it
+ * removes. Photos of the same lote taken at different hours give comparable values.
+ * @param lightPercentage Sunlit share of the photo (0-100)
+ * @param elevation Sun elevation when the photo was taken (degrees)
+ * @returns null below MIN_NORMALIZATION_ELEVATION
+ */
+export const normalizeLightPercentage = (lightPercentage: number, elevation: number): number | null => {
+  if (!Number.isFinite(lightPercentage) || !Number.isFinite(elevation) || elevation < MIN_NORMALIZATION_ELEVATION) {
+    return null;
+  }
+
+  const sunlitShare = Math.min(1, Math.max(0, lightPercentage / 100));
+  const verticalGap = sunlitShare ** Math.sin(toRadians(elevation));
+  const diffuseGap = verticalGap ** (1 / Math.sin(toRadians(DIFFUSE_GAP_ELEVATION)));
+  const beamFraction = expectedBeamFraction(90);
+
+  return (beamFraction * verticalGap + (1 - beamFraction) * diffuseGap) * 100;
+};
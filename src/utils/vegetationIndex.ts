@@ -0,0 +1,45 @@
+// Green-vegetation indices of 8-bit RGB pixels and their 0-255 scale for histograms and layer maps
+
+import type { VegetationIndex } from '../types';
+
+// Range of every index, mapped linearly onto 0-255
+const INDEX_RANGES: Record<VegetationIndex, [number, number]> = {
+  exg: [-1, 2],
+  vari: [-1, 1]
+};
+
+/**
+ * Excess Green on chromatic coordinates, 2g - r - b with r = R / (R + G + B) (-1 to 2, 0 for black)
+ */
+export const excessGreen = (r: number, g: number, b: number): number => {
+  const sum = r + g + b;
+  return sum > 0 ? (2 * g - r - b) / sum : 0;
+};
+
+/**
+ * Visible Atmospherically Resistant Index, (G - R) / (G + R - B), clamped to -1..1 (0 when undefined)
+ */
+export const vari = (r: number, g: number, b: number): number => {
+  const denominator = g + r - b;
+  return denominator === 0 ? 0 : Math.min(1, Math.max(-1, (g - r) / denominator));
+};
+
+export const vegetationIndexValue = (index: VegetationIndex, r: number, g: number, b: number): number => {
+  return index === 'vari' ? vari(r, g, b) : excessGreen(r, g, b);
+};
+
+/**
+ * Index value on the 0-255 scale
+ */
+export const vegetationIndexToByte = (index: VegetationIndex, value: number): number => {
+  const [min, max] = INDEX_RANGES[index];
+  return Math.round(((value - min) / (max - min)) * 255);
+};
+
+/**
+ * 0-255 scale value back to the index
+ */
+export const byteToVegetationIndex = (index: VegetationIndex, byte: number): number => {
+  const [min, max] = INDEX_RANGES[index];
+  return min + (byte / 255) * (max - min);
+};